@@ -0,0 +1,46 @@
+/**
+ * Unit tests for src/chatops.ts
+ */
+import { parseChatOpsCommand } from '../src/chatops.js'
+
+describe('chatops.ts', () => {
+  it('Parses commands without arguments', () => {
+    for (const name of ['deploy', 'redeploy', 'reset-db', 'destroy']) {
+      expect(parseChatOpsCommand(`/${name}`)).toEqual({ name })
+    }
+  })
+
+  it('Parses the duration of /extend-ttl', () => {
+    expect(parseChatOpsCommand('/extend-ttl 48h')).toEqual({
+      name: 'extend-ttl',
+      ttlMs: 48 * 3_600_000
+    })
+  })
+
+  it('Only reads the first line', () => {
+    expect(
+      parseChatOpsCommand('  /destroy  \nthanks, the feature shipped')
+    ).toEqual({ name: 'destroy' })
+    expect(parseChatOpsCommand('LGTM\n/destroy')).toBeUndefined()
+  })
+
+  it('Ignores comments that are not a command', () => {
+    expect(parseChatOpsCommand('')).toBeUndefined()
+    expect(parseChatOpsCommand('deploy')).toBeUndefined()
+    expect(parseChatOpsCommand('/approve')).toBeUndefined()
+    expect(parseChatOpsCommand('Please /deploy this')).toBeUndefined()
+  })
+
+  it('Rejects /extend-ttl without exactly one duration', () => {
+    const usage = 'Usage: /extend-ttl <duration>, e.g. /extend-ttl 48h'
+
+    expect(() => parseChatOpsCommand('/extend-ttl')).toThrow(usage)
+    expect(() => parseChatOpsCommand('/extend-ttl 1h 2h')).toThrow(usage)
+  })
+
+  it('Rejects an invalid /extend-ttl duration', () => {
+    expect(() => parseChatOpsCommand('/extend-ttl forever')).toThrow(
+      'Invalid duration "forever"'
+    )
+  })
+})
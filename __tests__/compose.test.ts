@@ -0,0 +1,209 @@
+/**
+ * Unit tests for src/compose.ts
+ */
+import { readFileSync } from 'fs'
+import { parse } from 'yaml'
+import { ComposeError, mergeCompose } from '../src/compose.js'
+
+const BASE = `
+services:
+  supabase-kong:
+    image: kong:2.8.1
+    environment:
+      - SERVICE_URL_SUPABASEKONG_8000
+      - SUPABASE_ANON_KEY=\${SERVICE_SUPABASEANON_KEY}
+      - SUPABASE_SERVICE_KEY=\${SERVICE_SUPABASESERVICE_KEY}
+      - DASHBOARD_USERNAME=\${SERVICE_USER_ADMIN}
+      - DASHBOARD_PASSWORD=\${SERVICE_PASSWORD_ADMIN}
+      - KONG_DNS_ORDER=LAST,A,CNAME
+      - KONG_PLUGINS=request-transformer
+  supabase-db:
+    image: supabase/postgres:15.8.1
+    environment:
+      POSTGRES_PASSWORD: \${SERVICE_PASSWORD_POSTGRES}
+      POSTGRES_DB: \${POSTGRES_DB:-postgres}
+      POSTGRES_HOST: \${POSTGRES_HOSTNAME:-supabase-db}
+      POSTGRES_PORT: \${POSTGRES_PORT:-5432}
+  supabase-rest:
+    image: postgrest/postgrest:v12
+    depends_on:
+      - supabase-db
+      - supabase-analytics
+  supabase-auth:
+    image: supabase/gotrue:v2
+    depends_on:
+      supabase-db:
+        condition: service_healthy
+      supabase-analytics:
+        condition: service_healthy
+  supabase-edge-functions:
+    image: supabase/edge-runtime:v1
+  supabase-analytics:
+    image: supabase/logflare:1
+`
+
+function merge(overlay: Record<string, unknown>) {
+  return parse(mergeCompose(BASE, { source: 'overlay.yml', doc: overlay }))
+}
+
+describe('compose.ts', () => {
+  it('Keeps the base as is with an empty overlay', () => {
+    expect(merge({})).toEqual(parse(BASE))
+  })
+
+  it('Merges mappings key by key and replaces other values', () => {
+    const merged = merge({
+      services: {
+        'supabase-kong': { image: 'kong:3.0.0', ports: ['8000:8000'] }
+      },
+      volumes: { db: {} }
+    })
+
+    expect(merged.services['supabase-kong'].image).toBe('kong:3.0.0')
+    expect(merged.services['supabase-kong'].ports).toEqual(['8000:8000'])
+    expect(merged.services['supabase-kong'].environment).toHaveLength(7)
+    expect(merged.volumes).toEqual({ db: {} })
+  })
+
+  it('Merges list environments by variable name and keeps their form', () => {
+    const merged = merge({
+      services: {
+        'supabase-kong': {
+          environment: {
+            KONG_DNS_ORDER: 'A',
+            KONG_LOG_LEVEL: 'debug',
+            KONG_PLUGINS: null
+          }
+        }
+      }
+    })
+
+    expect(merged.services['supabase-kong'].environment).toEqual([
+      'SERVICE_URL_SUPABASEKONG_8000',
+      'SUPABASE_ANON_KEY=${SERVICE_SUPABASEANON_KEY}',
+      'SUPABASE_SERVICE_KEY=${SERVICE_SUPABASESERVICE_KEY}',
+      'DASHBOARD_USERNAME=${SERVICE_USER_ADMIN}',
+      'DASHBOARD_PASSWORD=${SERVICE_PASSWORD_ADMIN}',
+      'KONG_DNS_ORDER=A',
+      'KONG_LOG_LEVEL=debug'
+    ])
+  })
+
+  it('Merges mapping environments with overlay lists', () => {
+    const merged = merge({
+      services: {
+        'supabase-db': { environment: ['POSTGRES_PORT=6543', 'TZ=UTC'] }
+      }
+    })
+
+    expect(merged.services['supabase-db'].environment).toEqual({
+      POSTGRES_PASSWORD: '${SERVICE_PASSWORD_POSTGRES}',
+      POSTGRES_DB: '${POSTGRES_DB:-postgres}',
+      POSTGRES_HOST: '${POSTGRES_HOSTNAME:-supabase-db}',
+      POSTGRES_PORT: '6543',
+      TZ: 'UTC'
+    })
+  })
+
+  it('Removes services and the dependencies on them', () => {
+    const merged = merge({ services: { 'supabase-analytics': null } })
+
+    expect(merged.services['supabase-analytics']).toBeUndefined()
+    expect(merged.services['supabase-rest'].depends_on).toEqual(['supabase-db'])
+    expect(merged.services['supabase-auth'].depends_on).toEqual({
+      'supabase-db': { condition: 'service_healthy' }
+    })
+  })
+
+  it('Drops depends_on when every dependency was removed', () => {
+    const merged = merge({
+      services: {
+        'supabase-rest': { depends_on: ['supabase-analytics'] },
+        'supabase-analytics': null
+      }
+    })
+
+    expect(merged.services['supabase-rest']).not.toHaveProperty('depends_on')
+  })
+
+  it('Rejects removing a service the action needs', () => {
+    expect(() => merge({ services: { 'supabase-auth': null } })).toThrow(
+      new ComposeError(
+        'overlay.yml',
+        'service supabase-auth is required by the action'
+      )
+    )
+  })
+
+  it('Rejects removing an env var the action reads', () => {
+    expect(() =>
+      merge({
+        services: {
+          'supabase-db': { environment: { POSTGRES_DB: null } }
+        }
+      })
+    ).toThrow('env POSTGRES_DB is read by the action but no longer set')
+  })
+
+  it('Rejects dependencies on unknown services', () => {
+    expect(() =>
+      merge({
+        services: { 'supabase-studio': { depends_on: ['supabase-meta'] } }
+      })
+    ).toThrow(
+      'service supabase-studio depends on unknown service supabase-meta'
+    )
+  })
+
+  it.each([
+    [{ privileged: true }, 'service supabase-db cannot be privileged'],
+    [
+      { network_mode: 'host' },
+      'service supabase-db cannot use network_mode: host'
+    ],
+    [{ pid: 'host' }, 'service supabase-db cannot use pid: host'],
+    [
+      { volumes: ['/var/run/docker.sock:/var/run/docker.sock:ro'] },
+      'service supabase-db cannot mount /var/run/docker.sock from the host'
+    ],
+    [
+      { volumes: [{ type: 'bind', source: '/etc', target: '/host-etc' }] },
+      'service supabase-db cannot mount /etc from the host'
+    ]
+  ])(
+    'Rejects giving a service access to the host with %j',
+    (service, message) => {
+      expect(() => merge({ services: { 'supabase-db': service } })).toThrow(
+        new ComposeError('overlay.yml', message)
+      )
+    }
+  )
+
+  it('Allows relative bind mounts and named volumes', () => {
+    const volumes = ['./volumes/db/data:/var/lib/postgresql/data', 'db:/backup']
+
+    expect(
+      merge({ services: { 'supabase-db': { volumes } } }).services[
+        'supabase-db'
+      ].volumes
+    ).toEqual(volumes)
+  })
+
+  it('Reports every problem at once', () => {
+    expect(() =>
+      merge({
+        services: { 'supabase-kong': null, 'supabase-studio': 'studio' }
+      })
+    ).toThrow(
+      /service supabase-studio must be a mapping; service supabase-kong is required by the action; env SERVICE_URL_SUPABASEKONG is read/
+    )
+  })
+
+  it('Accepts the bundled compose file', () => {
+    const bundled = readFileSync('supabase-pawtograder.yml', 'utf-8')
+
+    expect(() =>
+      mergeCompose(bundled, { source: 'overlay.yml', doc: {} })
+    ).not.toThrow()
+  })
+})
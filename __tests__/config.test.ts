@@ -0,0 +1,202 @@
+/**
+ * Unit tests for src/config.ts
+ */
+import {
+  ConfigError,
+  DEFAULT_DEPLOY_CONFIG,
+  envKeys,
+  EnvEntry,
+  parseDeployConfig,
+  resolveEnvs
+} from '../src/config.js'
+
+function entry(key: string, source: EnvEntry['source'], options = {}) {
+  return { key, source, optional: false, multiline: false, ...options }
+}
+
+describe('config.ts', () => {
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = { ...env, API_KEY: 'from-the-runner' }
+  })
+
+  afterEach(() => {
+    process.env = env
+  })
+
+  describe('parseDeployConfig', () => {
+    it('Parses every kind of env source', () => {
+      const config = parseDeployConfig(
+        `
+backend:
+  env:
+    EDGE_FUNCTION_SECRET: \${edge_function_secret}
+    PORT: 8080
+    API_KEY: { from_env: API_KEY, optional: true }
+    SIGNING_KEY: { generate: secret }
+frontend:
+  build_args:
+    PEM: { value: '\${supabase_url}', multiline: true }
+`,
+        'deploy.yml'
+      )
+
+      expect(config.backend.env).toEqual([
+        entry('EDGE_FUNCTION_SECRET', {
+          kind: 'value',
+          template: '${edge_function_secret}'
+        }),
+        entry('PORT', { kind: 'value', template: '8080' }),
+        entry('API_KEY', { kind: 'env', name: 'API_KEY' }, { optional: true }),
+        entry('SIGNING_KEY', { kind: 'generate' })
+      ])
+      expect(config.frontend).toEqual({
+        env: [],
+        nixpacks_env: [],
+        build_args: [
+          entry(
+            'PEM',
+            { kind: 'value', template: '${supabase_url}' },
+            { multiline: true }
+          )
+        ]
+      })
+    })
+
+    it('Treats an empty document as an empty config', () => {
+      expect(parseDeployConfig('', 'deploy.yml')).toEqual({
+        backend: { env: [] },
+        frontend: { env: [], nixpacks_env: [], build_args: [] }
+      })
+    })
+
+    it('Parses the built-in default', () => {
+      expect(DEFAULT_DEPLOY_CONFIG.backend.env.map((e) => e.key)).toContain(
+        'EDGE_FUNCTION_SECRET'
+      )
+      expect(
+        DEFAULT_DEPLOY_CONFIG.frontend.build_args.map((e) => e.key)
+      ).toContain('NEXT_PUBLIC_SUPABASE_URL')
+    })
+
+    it.each([
+      ['backend: [', /^Invalid deployment config deploy.yml: YAMLParseError/],
+      ['- env', 'the document must be a mapping'],
+      ['backends: {}', 'unknown key backends in the document'],
+      ['frontend: { envs: {} }', 'unknown key envs in frontend'],
+      ['backend: { env: { 1KEY: x } }', 'backend.env.1KEY is not a valid'],
+      [
+        'backend: { env: { URL: "${supabase_url}" } }',
+        'backend.env.URL references unknown variable ${supabase_url} (available: edge_function_secret)'
+      ],
+      [
+        'frontend: { env: { URL: "${app_uri}" } }',
+        'frontend.env.URL references unknown variable ${app_uri}'
+      ],
+      [
+        'frontend: { env: { KEY: { value: a, from_env: B } } }',
+        'frontend.env.KEY needs exactly one of value, from_env or generate'
+      ],
+      [
+        'frontend: { env: { KEY: { optional: true } } }',
+        'frontend.env.KEY needs exactly one of value, from_env or generate'
+      ],
+      [
+        'frontend: { env: { KEY: { from_env: [A] } } }',
+        'frontend.env.KEY.from_env must be a string'
+      ],
+      [
+        'frontend: { env: { KEY: { generate: password } } }',
+        'frontend.env.KEY.generate must be "secret"'
+      ],
+      [
+        'frontend: { build_args: { KEY: { generate: secret } } }',
+        'frontend.build_args.KEY cannot be generated'
+      ],
+      [
+        'frontend: { env: { KEY: { value: a, optional: yes please } } }',
+        'frontend.env.KEY.optional must be true or false'
+      ]
+    ])('Rejects %s', (text, message) => {
+      expect(() => parseDeployConfig(text, 'deploy.yml')).toThrow(ConfigError)
+      expect(() => parseDeployConfig(text, 'deploy.yml')).toThrow(message)
+    })
+  })
+
+  describe('resolveEnvs', () => {
+    it('Resolves templates, runner envs and generated secrets', () => {
+      const resolved = resolveEnvs(
+        [
+          entry('URL', { kind: 'value', template: '${app_url}/api' }),
+          entry('API_KEY', { kind: 'env', name: 'API_KEY' }),
+          entry('SECRET', { kind: 'generate' })
+        ],
+        { app_url: 'https://fix.example.com' }
+      )
+
+      expect(resolved.slice(0, 2)).toEqual([
+        {
+          key: 'URL',
+          value: 'https://fix.example.com/api',
+          isMultiLine: false
+        },
+        { key: 'API_KEY', value: 'from-the-runner', isMultiLine: false }
+      ])
+      expect(resolved[2].value).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('Unescapes multi-line values', () => {
+      process.env.PEM = 'line 1\\nline 2'
+
+      expect(
+        resolveEnvs(
+          [entry('PEM', { kind: 'env', name: 'PEM' }, { multiline: true })],
+          {}
+        )
+      ).toEqual([{ key: 'PEM', value: 'line 1\nline 2', isMultiLine: true }])
+    })
+
+    it('Leaves out optional entries without a value', () => {
+      expect(
+        resolveEnvs(
+          [
+            entry(
+              'DSN',
+              { kind: 'value', template: '${bugsink_dsn}' },
+              { optional: true }
+            ),
+            entry(
+              'MISSING',
+              { kind: 'env', name: 'MISSING' },
+              { optional: true }
+            )
+          ],
+          {}
+        )
+      ).toEqual([])
+    })
+
+    it('Throws for required entries without a value', () => {
+      expect(() =>
+        resolveEnvs([entry('MISSING', { kind: 'env', name: 'MISSING' })], {})
+      ).toThrow('Env MISSING has no value')
+    })
+  })
+
+  describe('envKeys', () => {
+    it('Lists the keys without resolving deployment values', () => {
+      expect(
+        envKeys([
+          entry('URL', { kind: 'value', template: '${app_url}' }),
+          entry(
+            'API_KEY',
+            { kind: 'env', name: 'API_KEY' },
+            { optional: true }
+          ),
+          entry('MISSING', { kind: 'env', name: 'MISSING' }, { optional: true })
+        ])
+      ).toEqual(['URL', 'API_KEY'])
+    })
+  })
+})
@@ -0,0 +1,401 @@
+/**
+ * Unit tests for src/coolify.ts
+ */
+import { jest } from '@jest/globals'
+
+type AsyncMock = jest.Mock<(...args: unknown[]) => Promise<unknown>>
+
+const exec: AsyncMock = jest.fn(async () => 0)
+const sdk: Record<string, AsyncMock> = Object.fromEntries(
+  [
+    'createDockerimageApplication',
+    'createEnvByApplicationUuid',
+    'createEnvByServiceUuid',
+    'createPrivateDeployKeyApplication',
+    'createPrivateGithubAppApplication',
+    'createPublicApplication',
+    'createService',
+    'deleteApplicationByUuid',
+    'deleteServiceByUuid',
+    'deployByTagOrUuid',
+    'getApplicationLogsByUuid',
+    'getDeploymentByUuid',
+    'getEnvironmentByNameOrUuid',
+    'getServiceByUuid',
+    'listApplications',
+    'listDeploymentsByAppUuid',
+    'listEnvsByServiceUuid',
+    'listServers',
+    'listServices',
+    'restartServiceByUuid',
+    'startApplicationByUuid',
+    'startServiceByUuid',
+    'updateApplicationByUuid',
+    'updateEnvByServiceUuid',
+    'updateEnvsByServiceUuid',
+    'updateServiceByUuid'
+  ].map((name) => [name, jest.fn(async () => ({ data: undefined }))])
+)
+
+const tunnel = { connect: jest.fn(async () => {}), disconnect: jest.fn() }
+
+jest.unstable_mockModule('@actions/exec', () => ({ exec }))
+jest.unstable_mockModule('../src/client/sdk.gen.js', () => sdk)
+jest.unstable_mockModule('../src/tcp-tunnel.js', () => ({
+  TCPTunnelClient: jest.fn(() => tunnel)
+}))
+
+const {
+  default: Coolify,
+  DeploymentNameCollisionError,
+  SupersededError
+} = await import('../src/coolify.js')
+
+const SHA = 'abc1234def5678'
+
+function createCoolify() {
+  return new Coolify({
+    baseUrl: 'https://coolify.example.com/api/v1',
+    token: 'token',
+    project_uuid: 'project',
+    environment_uuid: 'environment',
+    environment_name: 'production',
+    supabase_api_url: 'https://supabase.example.com',
+    base_deployment_url: 'dev.pawtograder.net',
+    bugsink_dsn: ''
+  })
+}
+
+/** Replaces private steps that talk to Supabase or poll Coolify. */
+function stubSteps(coolify: InstanceType<typeof Coolify>) {
+  const steps = coolify as unknown as Record<string, AsyncMock>
+  const stub = (method: string, value?: unknown) =>
+    jest.spyOn(steps, method).mockResolvedValue(value)
+  stub('takeDeploymentLock')
+  stub('assertDeploymentLock')
+  stub('getSupabaseServiceUUIDOrCreateNewOne', {
+    backendServiceUUID: 'main-service',
+    postgres_db: 'postgres',
+    postgres_hostname: 'main-db.example.com',
+    postgres_port: '5432',
+    postgres_password: 'pg-password',
+    supabase_url: 'https://main-supabase.dev.pawtograder.net',
+    supabase_anon_key: 'main-anon-key',
+    supabase_service_role_key: 'main-service-role-key',
+    deploymentKey: 'deploy-key',
+    edgeFunctionSecret: 'edge-secret',
+    restartedSupabaseService: false
+  })
+  stub('waitUntilServiceIsReady')
+  stub('deployFunctions')
+  stub('pushMigrations', ['20240101_init.sql'])
+  stub('updateSecrets')
+  stub('waitUntilAppIsReady', true)
+}
+
+describe('coolify.ts', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    exec.mockImplementation(async () => 0)
+    sdk.listApplications.mockResolvedValue({
+      data: [
+        {
+          uuid: 'preview-app',
+          name: 'pr-7-frontend',
+          build_pack: 'dockerimage',
+          docker_registry_image_name: 'ghcr.io/org/app',
+          docker_registry_image_tag: 'sha-abc1234'
+        },
+        {
+          uuid: 'main-app',
+          name: 'main-frontend',
+          fqdn: 'https://main.dev.pawtograder.net'
+        }
+      ]
+    })
+    sdk.listServices.mockResolvedValue({
+      data: [{ uuid: 'main-service', name: 'main-supabase' }]
+    })
+    sdk.updateApplicationByUuid.mockResolvedValue({ data: {} })
+    sdk.deployByTagOrUuid.mockResolvedValue({
+      data: { deployments: [{ deployment_uuid: 'deployment' }] }
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('promoteDeployment', () => {
+    const promotion = {
+      source: 'pr-7',
+      targetDeploymentName: 'main',
+      checkedOutProjectDir: './',
+      repository: 'org/platform',
+      gitCommitSha: SHA,
+      frontendImageRepo: 'ghcr.io/org/app',
+      dockerRegistryUsername: 'bot',
+      dockerRegistryPassword: 'registry-password'
+    }
+
+    it("Rebuilds the frontend with the target's build args", async () => {
+      const coolify = createCoolify()
+      stubSteps(coolify)
+
+      const result = await coolify.promoteDeployment(promotion)
+
+      const build = exec.mock.calls.find(
+        ([, args]) => (args as string[])[1] === 'build'
+      )?.[1] as string[]
+      expect(build).toEqual(
+        expect.arrayContaining([
+          '-t',
+          'ghcr.io/org/app:sha-abc1234-main',
+          'NEXT_PUBLIC_SUPABASE_URL=https://main-supabase.dev.pawtograder.net',
+          'NEXT_PUBLIC_SUPABASE_ANON_KEY=main-anon-key',
+          'NEXT_PUBLIC_PAWTOGRADER_WEB_URL=https://main.dev.pawtograder.net'
+        ])
+      )
+      expect(sdk.updateApplicationByUuid).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: { uuid: 'main-app' },
+          body: expect.objectContaining({
+            docker_registry_image_name: 'ghcr.io/org/app',
+            docker_registry_image_tag: 'sha-abc1234-main'
+          })
+        })
+      )
+      expect(result).toEqual({
+        image: 'ghcr.io/org/app:sha-abc1234-main',
+        serviceUUID: 'main-service',
+        appUUID: 'main-app',
+        appliedMigrations: ['20240101_init.sql']
+      })
+    })
+
+    it('Leaves the target untouched when the build fails', async () => {
+      const coolify = createCoolify()
+      stubSteps(coolify)
+      exec.mockImplementation(async (_, args) => {
+        if ((args as string[])[1] === 'build') {
+          throw new Error('build failed')
+        }
+        return 0
+      })
+
+      await expect(coolify.promoteDeployment(promotion)).rejects.toThrow(
+        'build failed'
+      )
+      expect(sdk.updateApplicationByUuid).not.toHaveBeenCalled()
+      expect(
+        (coolify as unknown as Record<string, AsyncMock>).pushMigrations
+      ).not.toHaveBeenCalled()
+    })
+
+    it('Refuses a preview built from another commit', async () => {
+      const coolify = createCoolify()
+      stubSteps(coolify)
+
+      await expect(
+        coolify.promoteDeployment({ ...promotion, gitCommitSha: 'fff0000' })
+      ).rejects.toThrow(
+        'pr-7 (sha-abc1234) was not built from the checked out commit fff0000'
+      )
+      expect(exec).not.toHaveBeenCalled()
+    })
+
+    it('Requires the registry to rebuild the image', async () => {
+      await expect(
+        createCoolify().promoteDeployment({
+          ...promotion,
+          dockerRegistryPassword: undefined
+        })
+      ).rejects.toThrow('Promoting rebuilds the frontend image and requires')
+    })
+  })
+
+  describe('pushMigrations', () => {
+    const push = {
+      serviceUUID: 'main-service',
+      deployToken: 'deploy-key',
+      checkedOutProjectDir: './',
+      postgresPassword: 'pg-password',
+      supabase_url: 'https://main-supabase.dev.pawtograder.net',
+      edgeFunctionSecret: 'edge-secret'
+    }
+
+    beforeEach(() => {
+      sdk.listEnvsByServiceUuid.mockResolvedValue({
+        data: [{ key: 'COOLIFY_DEPLOYMENT_LOCK', value: 'newer' }]
+      })
+    })
+
+    it('Stops before migrating when a newer run took the lock', async () => {
+      await expect(
+        createCoolify().pushMigrations({ ...push, lockOwner: 'older' })
+      ).rejects.toThrow(SupersededError)
+      expect(exec).not.toHaveBeenCalled()
+      expect(tunnel.disconnect).toHaveBeenCalled()
+    })
+
+    it('Migrates while holding the lock', async () => {
+      await expect(
+        createCoolify().pushMigrations({ ...push, lockOwner: 'newer' })
+      ).resolves.toEqual([])
+      expect(exec).toHaveBeenCalledWith(
+        expect.stringMatching(/^supabase db push /),
+        undefined,
+        expect.anything()
+      )
+    })
+  })
+
+  describe('cleanupByName', () => {
+    const cleanup = {
+      deploymentName: 'main',
+      repository: 'fork/platform',
+      gitBranch: 'main'
+    }
+
+    function recordSource(value: string) {
+      sdk.listServices.mockResolvedValue({
+        data: [{ uuid: 'main-service', name: 'main-supabase' }]
+      })
+      sdk.listEnvsByServiceUuid.mockResolvedValue({
+        data: [{ key: 'COOLIFY_DEPLOYMENT_SOURCE', value }]
+      })
+    }
+
+    it("Refuses to delete another repository's deployment", async () => {
+      recordSource('org/platform:main')
+
+      await expect(createCoolify().cleanupByName(cleanup)).rejects.toThrow(
+        new DeploymentNameCollisionError(
+          'Deployment main belongs to org/platform:main, not fork/platform:main; rename the branch or use deployment_naming: pr-number'
+        )
+      )
+      expect(sdk.deleteServiceByUuid).not.toHaveBeenCalled()
+      expect(sdk.deleteApplicationByUuid).not.toHaveBeenCalled()
+    })
+
+    it('Deletes deployments recorded with the bare branch', async () => {
+      recordSource('main')
+
+      await expect(createCoolify().cleanupByName(cleanup)).resolves.toEqual({
+        deletedService: 'main-service',
+        deletedApp: 'main-app'
+      })
+    })
+
+    it("Falls back to the app's git repository and branch", async () => {
+      sdk.listEnvsByServiceUuid.mockResolvedValue({ data: [] })
+      sdk.listApplications.mockResolvedValue({
+        data: [
+          {
+            uuid: 'main-app',
+            name: 'main-frontend',
+            git_repository: 'git@github.com:Org/platform.git',
+            git_branch: 'main'
+          }
+        ]
+      })
+
+      await expect(
+        createCoolify().cleanupByName({
+          ...cleanup,
+          repository: 'org/platform'
+        })
+      ).resolves.toEqual({
+        deletedService: 'main-service',
+        deletedApp: 'main-app'
+      })
+      await expect(createCoolify().cleanupByName(cleanup)).rejects.toThrow(
+        DeploymentNameCollisionError
+      )
+    })
+  })
+
+  describe('syncServiceCompose', () => {
+    const COMPOSE = 'services:\n  supabase-db:\n    image: postgres:15\n'
+
+    function syncServiceCompose(
+      deployedHash: string | undefined,
+      deployed = COMPOSE
+    ) {
+      const coolify = createCoolify()
+      jest
+        .spyOn(
+          coolify as unknown as Record<string, AsyncMock>,
+          'supabaseCompose'
+        )
+        .mockResolvedValue(COMPOSE)
+      sdk.getServiceByUuid.mockResolvedValue({
+        data: { docker_compose_raw: deployed, status: 'exited' }
+      })
+      return (
+        coolify as unknown as {
+          syncServiceCompose(options: object): Promise<boolean>
+        }
+      ).syncServiceCompose({ serviceUUID: 'main-service', deployedHash })
+    }
+
+    beforeEach(() => {
+      sdk.updateServiceByUuid.mockResolvedValue({ data: {} })
+      sdk.restartServiceByUuid.mockResolvedValue({ data: {} })
+      sdk.updateEnvByServiceUuid.mockResolvedValue({ data: {} })
+    })
+
+    it('Records the hash without restarting when no image changed', async () => {
+      await expect(syncServiceCompose(undefined)).resolves.toBe(false)
+
+      expect(sdk.updateServiceByUuid).not.toHaveBeenCalled()
+      expect(sdk.restartServiceByUuid).not.toHaveBeenCalled()
+      expect(sdk.updateEnvByServiceUuid).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({ key: 'COOLIFY_COMPOSE_HASH' })
+        })
+      )
+    })
+
+    it('Records the hash after the restart took the service down', async () => {
+      await expect(
+        syncServiceCompose(
+          undefined,
+          'services:\n  supabase-db:\n    image: postgres:14\n'
+        )
+      ).resolves.toBe(true)
+
+      expect(
+        sdk.updateEnvByServiceUuid.mock.invocationCallOrder[0]
+      ).toBeGreaterThan(sdk.restartServiceByUuid.mock.invocationCallOrder[0])
+    })
+
+    it('Keeps the old hash when the restart fails', async () => {
+      sdk.restartServiceByUuid.mockResolvedValue({ error: 'queue is full' })
+
+      await expect(syncServiceCompose('old-hash')).rejects.toThrow(
+        'Failed to restart service main-service'
+      )
+      expect(sdk.updateEnvByServiceUuid).not.toHaveBeenCalled()
+    })
+
+    it('Fails when the service never goes down', async () => {
+      jest.useFakeTimers()
+      try {
+        const sync = syncServiceCompose('old-hash')
+        sdk.getServiceByUuid.mockResolvedValue({
+          data: { docker_compose_raw: COMPOSE, status: 'running:healthy' }
+        })
+        await Promise.all([
+          expect(sync).rejects.toThrow(
+            'Service main-service still reports healthy 2 minutes after its restart was queued'
+          ),
+          jest.advanceTimersByTimeAsync(3 * 60 * 1000)
+        ])
+      } finally {
+        jest.useRealTimers()
+      }
+      expect(sdk.updateEnvByServiceUuid).not.toHaveBeenCalled()
+    })
+  })
+})
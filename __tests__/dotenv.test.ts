@@ -0,0 +1,127 @@
+/**
+ * Unit tests for src/dotenv.ts
+ */
+import { execFileSync } from 'child_process'
+import { constants, generateKeyPairSync, privateDecrypt } from 'crypto'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  dotEnvKeys,
+  renderDotEnv,
+  writeEncryptedDotEnv
+} from '../src/dotenv.js'
+import { DeploymentInfo } from '../src/types.js'
+
+const deployment: DeploymentInfo = {
+  appURL: 'https://fix.dev.pawtograder.net',
+  supabase_url: 'https://fix-supabase.dev.pawtograder.net',
+  supabase_anon_key: 'anon-key',
+  supabase_service_role_key: 'service-role-key',
+  postgres_db: 'postgres',
+  postgres_hostname: 'db.example.com',
+  postgres_port: '5432',
+  postgres_password: 'pg-password',
+  studio_user: 'studio',
+  studio_password: 'studio-password',
+  serviceUUID: 'service-uuid',
+  appUUID: 'app-uuid',
+  isNewDeployment: true
+}
+
+describe('dotenv.ts', () => {
+  it('Renders the env in commented groups', () => {
+    const env = renderDotEnv(deployment)
+
+    expect(env).toMatch(/^# Database\nPOSTGRES_DB=postgres\n/)
+    expect(env).toContain('\n\n# Supabase\nSUPABASE_URL=https://fix-supabase')
+    expect(env).toContain(
+      'NEXT_PUBLIC_PAWTOGRADER_WEB_URL=https://fix.dev.pawtograder.net'
+    )
+  })
+
+  it('Lists the variable names without values', () => {
+    const keys = dotEnvKeys(deployment)
+
+    expect(keys).toHaveLength(14)
+    expect(keys).toContain('SUPABASE_SERVICE_ROLE_KEY')
+    expect(keys.join('\n')).not.toContain('=')
+  })
+
+  describe('writeEncryptedDotEnv', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    })
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'dotenv-test-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('Writes files the openssl CLI decrypts', async () => {
+      const outputDir = await writeEncryptedDotEnv({
+        deployment,
+        publicKeyPem: publicKey,
+        outputDir: join(dir, 'out')
+      })
+      writeFileSync(join(dir, 'team.pem'), privateKey)
+
+      // The commands documented on writeEncryptedDotEnv
+      execFileSync('openssl', [
+        'pkeyutl',
+        '-decrypt',
+        '-inkey',
+        join(dir, 'team.pem'),
+        '-pkeyopt',
+        'rsa_padding_mode:oaep',
+        '-in',
+        join(outputDir, 'env.key.enc'),
+        '-out',
+        join(dir, 'env.key')
+      ])
+      execFileSync('openssl', [
+        'enc',
+        '-d',
+        '-aes-256-cbc',
+        '-pbkdf2',
+        '-iter',
+        '100000',
+        '-md',
+        'sha256',
+        '-pass',
+        `file:${join(dir, 'env.key')}`,
+        '-in',
+        join(outputDir, 'env.enc'),
+        '-out',
+        join(dir, '.env')
+      ])
+
+      expect(readFileSync(join(dir, '.env'), 'utf-8')).toBe(
+        renderDotEnv(deployment) + '\n'
+      )
+    })
+
+    it('Accepts a public key with escaped newlines', async () => {
+      await writeEncryptedDotEnv({
+        deployment,
+        publicKeyPem: publicKey.replace(/\n/g, '\\n'),
+        outputDir: dir
+      })
+
+      const passphrase = privateDecrypt(
+        { key: privateKey, padding: constants.RSA_PKCS1_OAEP_PADDING },
+        readFileSync(join(dir, 'env.key.enc'))
+      )
+      expect(passphrase.toString()).toMatch(/^[0-9a-f]{64}$/)
+      expect(readFileSync(join(dir, 'env.enc')).subarray(0, 8).toString()).toBe(
+        'Salted__'
+      )
+    })
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for src/duration.ts
+ */
+import { parseDuration } from '../src/duration.js'
+
+describe('duration.ts', () => {
+  it('Parses each unit', () => {
+    expect(parseDuration('30s')).toBe(30_000)
+    expect(parseDuration('90m')).toBe(90 * 60_000)
+    expect(parseDuration('24h')).toBe(24 * 3_600_000)
+    expect(parseDuration('7d')).toBe(7 * 86_400_000)
+  })
+
+  it('Accepts fractions, upper case units and surrounding whitespace', () => {
+    expect(parseDuration('1.5h')).toBe(90 * 60_000)
+    expect(parseDuration(' 2 M ')).toBe(120_000)
+  })
+
+  it('Reads a bare number as hours by default', () => {
+    expect(parseDuration('2')).toBe(2 * 3_600_000)
+  })
+
+  it('Reads a bare number in the given unit', () => {
+    expect(parseDuration('5', 's')).toBe(5_000)
+    expect(parseDuration('5m', 's')).toBe(300_000)
+  })
+
+  it('Rejects zero', () => {
+    for (const value of ['0', '0s', '0.0001s']) {
+      expect(() => parseDuration(value)).toThrow(
+        `Invalid duration "${value}" (must be longer than 0)`
+      )
+    }
+  })
+
+  it('Rejects anything else', () => {
+    for (const value of ['', 'h', '-1h', '1w', '1h30m', 'soon']) {
+      expect(() => parseDuration(value)).toThrow(
+        `Invalid duration "${value}" (expected e.g. 30m, 24h or 7d)`
+      )
+    }
+  })
+})
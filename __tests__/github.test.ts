@@ -0,0 +1,203 @@
+/**
+ * Unit tests for src/github.ts
+ */
+import { jest } from '@jest/globals'
+import { GitHubApiError, GitHubClient } from '../src/github.js'
+
+function json(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'content-type': 'application/json', ...init.headers }
+  })
+}
+
+describe('github.ts', () => {
+  let fetchMock: jest.SpiedFunction<typeof fetch>
+  const client = new GitHubClient({
+    token: 'gh-token',
+    repository: 'pawtograder/platform',
+    apiUrl: 'https://github.example.com/api/v3/'
+  })
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(globalThis, 'fetch')
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  /** The method and URL of every request sent. */
+  function requests() {
+    return fetchMock.mock.calls.map(
+      ([url, init]) => `${init?.method} ${String(url)}`
+    )
+  }
+
+  it('Sends authenticated JSON requests relative to the API root', async () => {
+    fetchMock.mockResolvedValueOnce(json({ id: 7, body: 'hi' }))
+
+    await expect(client.createIssueComment(42, 'hi')).resolves.toEqual({
+      id: 7,
+      body: 'hi'
+    })
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe(
+      'https://github.example.com/api/v3/repos/pawtograder/platform/issues/42/comments'
+    )
+    expect(init).toMatchObject({
+      method: 'POST',
+      headers: {
+        Authorization: 'token gh-token',
+        'Content-Type': 'application/json'
+      },
+      body: '{"body":"hi"}'
+    })
+  })
+
+  it('Follows the next links of paginated lists', async () => {
+    const next =
+      'https://github.example.com/api/v3/repositories/1/branches?page=2'
+    fetchMock
+      .mockResolvedValueOnce(
+        json([{ name: 'main' }], {
+          headers: { link: `<${next}>; rel="next", <${next}>; rel="last"` }
+        })
+      )
+      .mockResolvedValueOnce(json([{ name: 'feat/login' }]))
+
+    await expect(client.listBranchNames()).resolves.toEqual([
+      'main',
+      'feat/login'
+    ])
+    expect(requests()).toEqual([
+      'GET https://github.example.com/api/v3/repos/pawtograder/platform/branches?per_page=100',
+      `GET ${next}`
+    ])
+  })
+
+  it('Retries after the delay in retry-after', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response('secondary rate limit', {
+          status: 403,
+          headers: { 'retry-after': '0' }
+        })
+      )
+      .mockResolvedValueOnce(json([]))
+
+    await expect(client.listIssueComments(42)).resolves.toEqual([])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('Waits for the primary rate limit to reset', async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 })
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response('API rate limit exceeded', {
+          status: 403,
+          headers: {
+            'x-ratelimit-remaining': '0',
+            'x-ratelimit-reset': '1700000030'
+          }
+        })
+      )
+      .mockResolvedValueOnce(json({ id: 1 }))
+
+    const promise = client.createCheckRun({ name: 'deploy', head_sha: 'abc' })
+    await jest.advanceTimersByTimeAsync(30_000)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1_000)
+
+    await expect(promise).resolves.toEqual({ id: 1 })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('Backs off exponentially from one minute without headers', async () => {
+    jest.useFakeTimers()
+    fetchMock
+      .mockResolvedValueOnce(new Response('slow down', { status: 429 }))
+      .mockResolvedValueOnce(new Response('slow down', { status: 429 }))
+      .mockResolvedValueOnce(json([]))
+
+    const promise = client.listBranchNames()
+    await jest.advanceTimersByTimeAsync(60_000)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(119_000)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await jest.advanceTimersByTimeAsync(1_000)
+
+    await expect(promise).resolves.toEqual([])
+  })
+
+  it('Gives up after the maximum number of retries', async () => {
+    fetchMock.mockImplementation(
+      async () =>
+        new Response('rate limited', {
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'retry-after': '0' }
+        })
+    )
+
+    await expect(client.listBranchNames()).rejects.toThrow(
+      new GitHubApiError(
+        'GitHub API GET https://github.example.com/api/v3/repos/pawtograder/platform/branches?per_page=100 failed: 429 Too Many Requests rate limited',
+        429
+      )
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it('Does not retry other errors', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('Resource not accessible by integration', { status: 403 })
+    )
+
+    const error = await client
+      .createDeployment({
+        ref: 'main',
+        environment: 'main',
+        transient_environment: false,
+        production_environment: false,
+        description: 'Preview'
+      })
+      .catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(GitHubApiError)
+    expect((error as GitHubApiError).status).toBe(403)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('Sends annotations beyond the limit in follow-up updates', async () => {
+    fetchMock.mockImplementation(async () => json({}))
+    const annotations = Array.from({ length: 120 }, (_, i) => ({
+      path: 'supabase/migrations/1_init.sql',
+      start_line: i + 1,
+      end_line: i + 1,
+      annotation_level: 'failure' as const,
+      message: `problem ${i}`
+    }))
+
+    await client.completeCheckRun(9, {
+      conclusion: 'failure',
+      title: 'Deployment failed',
+      summary: 'Migrations failed',
+      annotations
+    })
+
+    const bodies = fetchMock.mock.calls.map(([, init]) =>
+      JSON.parse(String(init?.body))
+    )
+    expect(bodies.map((body) => body.output.annotations.length)).toEqual([
+      50, 50, 20
+    ])
+    expect(bodies[0]).toMatchObject({
+      status: 'completed',
+      conclusion: 'failure'
+    })
+    expect(bodies[1]).not.toHaveProperty('conclusion')
+  })
+})
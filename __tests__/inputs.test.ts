@@ -0,0 +1,185 @@
+/**
+ * Unit tests for src/inputs.ts
+ */
+import { InputError, parseInputs } from '../src/inputs.js'
+
+const REQUIRED = {
+  coolify_api_url: 'https://coolify.example.com/api/v1',
+  coolify_api_token: 'token',
+  coolify_project_uuid: 'abc1234',
+  coolify_environment_uuid: 'def5678',
+  coolify_environment_name: 'production',
+  coolify_supabase_api_url: 'https://supabase.example.com'
+}
+
+const REGISTRY = {
+  frontend_image_repo: 'ghcr.io/org/app',
+  docker_registry_username: 'bot',
+  docker_registry_password: 'password'
+}
+
+/** Parses the given inputs on top of the required ones. */
+function parse(inputs: Record<string, string> = {}) {
+  const values: Record<string, string> = { ...REQUIRED, ...inputs }
+  return parseInputs((name) => values[name] ?? '')
+}
+
+/** The problems reported for the given inputs. */
+function problems(inputs: Record<string, string>) {
+  try {
+    parse(inputs)
+  } catch (error) {
+    if (error instanceof InputError) {
+      return error.problems
+    }
+    throw error
+  }
+  return []
+}
+
+describe('inputs.ts', () => {
+  it('Falls back to the defaults of action.yml', () => {
+    const inputs = parse()
+
+    expect(inputs).toMatchObject({
+      mode: 'deploy',
+      dry_run: false,
+      ephemeral: false,
+      ephemeral_ttl_ms: 24 * 3_600_000,
+      deployment_naming: 'branch',
+      notification_secrets: 'redacted',
+      notify_on: ['deploy-success', 'deploy-failure', 'cleanup'],
+      github_deployments: false,
+      github_check_run: false
+    })
+    expect(inputs.coolify).toMatchObject({
+      base_deployment_url: 'dev.pawtograder.net',
+      server_uuid: undefined,
+      delete_options: {
+        delete_volumes: true,
+        delete_configurations: true,
+        docker_cleanup: true,
+        delete_connected_networks: true
+      },
+      polling: {
+        intervalMs: 5_000,
+        backoff: 1,
+        serviceTimeoutSeconds: 1_200,
+        appTimeoutSeconds: 1_200
+      },
+      failure_log_lines: 100,
+      update_supabase_compose: true
+    })
+  })
+
+  it('Converts inputs to the types they stand for', () => {
+    const inputs = parse({
+      mode: 'reap',
+      dry_run: 'TRUE',
+      ephemeral_ttl: '7d',
+      poll_interval: '10',
+      poll_backoff: '1.5',
+      service_ready_timeout: '90',
+      app_ready_timeout: '1h',
+      notify_on: 'cleanup, deploy-failure',
+      cleanup_delete_volumes: 'false'
+    })
+
+    expect(inputs.mode).toBe('reap')
+    expect(inputs.dry_run).toBe(true)
+    expect(inputs.ephemeral_ttl_ms).toBe(7 * 86_400_000)
+    expect(inputs.notify_on).toEqual(['cleanup', 'deploy-failure'])
+    expect(inputs.coolify.delete_options?.delete_volumes).toBe(false)
+    expect(inputs.coolify.polling).toEqual({
+      intervalMs: 10_000,
+      backoff: 1.5,
+      serviceTimeoutSeconds: 90,
+      appTimeoutSeconds: 3_600
+    })
+  })
+
+  it('Reads a bare ephemeral_ttl in hours', () => {
+    expect(parse({ ephemeral_ttl: '48' }).ephemeral_ttl_ms).toBe(48 * 3_600_000)
+  })
+
+  it('Reports every problem at once', () => {
+    const error = (() => {
+      try {
+        parseInputs(() => '')
+      } catch (error) {
+        return error as InputError
+      }
+    })()
+
+    expect(error).toBeInstanceOf(InputError)
+    expect(error?.problems).toEqual([
+      'coolify_api_url is required',
+      'coolify_api_token is required',
+      'coolify_project_uuid is required',
+      'coolify_environment_uuid is required',
+      'coolify_environment_name is required',
+      'coolify_supabase_api_url is required'
+    ])
+    expect(error?.message).toContain(
+      'Invalid action inputs:\n  - coolify_api_url is required\n'
+    )
+  })
+
+  it.each([
+    [{ mode: 'deploy-all' }, 'mode must be one of deploy, reap, audit'],
+    [{ dry_run: 'yes' }, 'dry_run must be true or false, got "yes"'],
+    [{ coolify_api_url: 'ftp://coolify' }, 'coolify_api_url must be an http'],
+    [{ coolify_server_uuid: 'not a uuid' }, 'coolify_server_uuid is not a'],
+    [{ poll_interval: 'often' }, 'poll_interval: Invalid duration "often"'],
+    [{ poll_interval: '0' }, 'poll_interval: Invalid duration "0" (must be'],
+    [{ ephemeral_ttl: '0h' }, 'ephemeral_ttl: Invalid duration "0h" (must be'],
+    [{ poll_backoff: '0.5' }, 'poll_backoff must be a number >= 1'],
+    [{ failure_log_lines: '1.5' }, 'failure_log_lines must be a whole number'],
+    [{ base_deployment_url: 'https://x.io' }, 'base_deployment_url must be'],
+    [{ notify_on: 'deploy-start' }, 'notify_on has unknown event'],
+    [{ env_encryption_public_key: 'key' }, 'env_encryption_public_key is not'],
+    [{ promote_to: 'main' }, 'promote_to is only used in the promote mode'],
+    [
+      { mode: 'promote', ...REGISTRY },
+      'promote_from is required in the promote mode'
+    ],
+    [
+      { mode: 'promote', promote_from: 'pr-1' },
+      'the promote mode rebuilds the frontend image and requires'
+    ],
+    [{ rollback_to: 'abc1234' }, 'rollback_to is only used in the rollback'],
+    [
+      { mode: 'rollback', dry_run: 'true' },
+      'dry_run is not supported in the rollback mode'
+    ],
+    [
+      { mode: 'promote', promote_from: 'pr-1', dry_run: 'true', ...REGISTRY },
+      'dry_run is not supported in the promote mode'
+    ],
+    [
+      { frontend_image_repo: 'ghcr.io/org/app' },
+      'frontend_image_repo requires docker_registry_username'
+    ],
+    [
+      { mode: 'reap', cleanup_app_uuid: 'abc1234' },
+      'cleanup_service_uuid and cleanup_app_uuid cannot be used in the reap'
+    ],
+    [
+      { cleanup_app_uuid: 'abc1234', ephemeral: 'true' },
+      'cleanup_service_uuid and cleanup_app_uuid cannot be combined with'
+    ]
+  ])('Rejects %j', (inputs, problem) => {
+    expect(problems(inputs)).toEqual([expect.stringContaining(problem)])
+  })
+
+  it('Only requires registry credentials for the image in the deploy mode', () => {
+    expect(
+      problems({ mode: 'rollback', frontend_image_repo: 'ghcr.io/org/app' })
+    ).toEqual([])
+  })
+
+  it('Allows dry_run in the reap and audit modes', () => {
+    expect(problems({ mode: 'reap', dry_run: 'true' })).toEqual([])
+    expect(problems({ mode: 'audit', dry_run: 'true' })).toEqual([])
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for src/naming.ts
+ */
+import {
+  ephemeralResourcePattern,
+  MAX_DNS_LABEL_LENGTH,
+  slugify,
+  toDeploymentName,
+  toLegacyDeploymentName,
+  withEphemeralSuffix
+} from '../src/naming.js'
+
+describe('naming.ts', () => {
+  describe('slugify', () => {
+    it('Turns a branch name into a DNS label', () => {
+      expect(slugify('Feature_X')).toBe('feature-x')
+      expect(slugify('feat/Add--Login!')).toBe('feat-add-login')
+      expect(slugify('--main--')).toBe('main')
+    })
+
+    it('Falls back to a fixed name when nothing is left', () => {
+      expect(slugify('///')).toBe('deployment')
+    })
+
+    it('Truncates long names and keeps them apart with a hash', () => {
+      const prefix = 'feature/'.padEnd(80, 'a')
+      const one = slugify(`${prefix}-one`)
+      const two = slugify(`${prefix}-two`)
+
+      expect(one).toHaveLength(MAX_DNS_LABEL_LENGTH)
+      expect(one).toMatch(/^feature-a+-[0-9a-f]{6}$/)
+      expect(one).not.toBe(two)
+      expect(slugify(`${prefix}-one`)).toBe(one)
+    })
+
+    it('Does not end the truncated part with a dash', () => {
+      const slug = slugify(`${'a'.repeat(55)}-${'b'.repeat(20)}`, 63)
+
+      expect(slug).toMatch(/^a{55}-[0-9a-f]{6}$/)
+    })
+  })
+
+  describe('toDeploymentName', () => {
+    it('Slugifies the branch by default', () => {
+      expect(toDeploymentName({ branchOrPR: 'feat/Login' })).toBe('feat-login')
+    })
+
+    it('Names pull requests by number with pr-number naming', () => {
+      expect(
+        toDeploymentName({
+          branchOrPR: 'feat/login',
+          prNumber: 42,
+          naming: 'pr-number'
+        })
+      ).toBe('pr-42')
+    })
+
+    it('Falls back to the branch without a pull request', () => {
+      expect(
+        toDeploymentName({ branchOrPR: 'main', naming: 'pr-number' })
+      ).toBe('main')
+    })
+
+    it('Leaves room for the ephemeral suffix', () => {
+      const name = toDeploymentName(
+        { branchOrPR: 'x'.repeat(100) },
+        { ephemeral: true }
+      )
+
+      expect(withEphemeralSuffix(name)).toHaveLength(MAX_DNS_LABEL_LENGTH)
+    })
+  })
+
+  describe('toLegacyDeploymentName', () => {
+    it('Only replaces the first slash', () => {
+      expect(toLegacyDeploymentName('Feature_X')).toBe('Feature_X')
+      expect(toLegacyDeploymentName('feat/a/b')).toBe('feat-a/b')
+    })
+  })
+
+  describe('withEphemeralSuffix', () => {
+    it('Appends a random hex suffix', () => {
+      const name = withEphemeralSuffix('fix')
+
+      expect(name).toMatch(/^fix-[0-9a-f]{8}$/)
+      expect(withEphemeralSuffix('fix')).not.toBe(name)
+    })
+  })
+
+  describe('ephemeralResourcePattern', () => {
+    const pattern = ephemeralResourcePattern('fix')
+
+    it('Matches the resources of the ephemeral deployments', () => {
+      expect('fix-0123abcd-supabase').toMatch(pattern)
+      expect('fix-0123abcd-frontend'.match(pattern)?.slice(1)).toEqual([
+        'fix-0123abcd',
+        'frontend'
+      ])
+    })
+
+    it('Does not match deployments of other branches sharing the prefix', () => {
+      expect('fix-login-0123abcd-supabase').not.toMatch(pattern)
+      expect('fix-login-frontend').not.toMatch(pattern)
+    })
+
+    it('Does not match the stable deployment or other resources', () => {
+      expect('fix-supabase').not.toMatch(pattern)
+      expect('fix-0123abcd-worker').not.toMatch(pattern)
+      expect('fix-0123ABCD-supabase').not.toMatch(pattern)
+    })
+
+    it('Escapes the deployment name', () => {
+      expect('axb-0123abcd-frontend').not.toMatch(
+        ephemeralResourcePattern('a.b')
+      )
+    })
+  })
+})
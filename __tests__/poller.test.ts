@@ -0,0 +1,158 @@
+/**
+ * Unit tests for src/poller.ts
+ */
+import { poll, PollTimeoutError } from '../src/poller.js'
+
+describe('poller.ts', () => {
+  it('Resolves with the first defined result', async () => {
+    let calls = 0
+    const result = await poll(
+      async () => (++calls === 3 ? 'ready' : undefined),
+      {
+        intervalMs: 1,
+        timeoutMs: 1_000,
+        description: 'the check'
+      }
+    )
+
+    expect(result).toBe('ready')
+    expect(calls).toBe(3)
+  })
+
+  it('Treats falsy results other than undefined as done', async () => {
+    await expect(
+      poll(async () => false, {
+        intervalMs: 1,
+        timeoutMs: 1_000,
+        description: 'the check'
+      })
+    ).resolves.toBe(false)
+  })
+
+  it('Rejects with a PollTimeoutError after the timeout', async () => {
+    const promise = poll(async () => undefined, {
+      intervalMs: 5,
+      timeoutMs: 20,
+      description: 'service abc to be ready'
+    })
+
+    await expect(promise).rejects.toThrow(PollTimeoutError)
+    await expect(promise).rejects.toThrow(
+      'Timeout waiting for service abc to be ready'
+    )
+  })
+
+  it('Rejects immediately when the check throws', async () => {
+    let calls = 0
+    await expect(
+      poll(
+        async () => {
+          calls++
+          throw new Error('deployment failed')
+        },
+        { intervalMs: 1, timeoutMs: 1_000, description: 'the check' }
+      )
+    ).rejects.toThrow('deployment failed')
+    expect(calls).toBe(1)
+  })
+
+  it('Never overlaps checks', async () => {
+    let running = 0
+    let overlapped = false
+    let calls = 0
+    await poll(
+      async () => {
+        overlapped ||= running > 0
+        running++
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        running--
+        return ++calls === 3 ? true : undefined
+      },
+      { intervalMs: 1, timeoutMs: 1_000, description: 'the check' }
+    )
+
+    expect(overlapped).toBe(false)
+  })
+
+  it('Backs off up to the maximum interval', async () => {
+    const ticks: number[] = []
+    await poll(
+      async () => {
+        ticks.push(Date.now())
+        return ticks.length === 4 ? true : undefined
+      },
+      {
+        intervalMs: 10,
+        backoff: 3,
+        maxIntervalMs: 40,
+        timeoutMs: 1_000,
+        description: 'the check'
+      }
+    )
+
+    const delays = ticks.slice(1).map((tick, i) => tick - ticks[i])
+    // 10ms, then 30ms, then capped at 40ms
+    expect(delays[0]).toBeGreaterThanOrEqual(9)
+    expect(delays[1]).toBeGreaterThanOrEqual(29)
+    expect(delays[2]).toBeGreaterThanOrEqual(39)
+    expect(delays[2]).toBeLessThan(90)
+  })
+
+  it('Rejects with the reason of an aborted signal', async () => {
+    const controller = new AbortController()
+    const promise = poll(async () => undefined, {
+      intervalMs: 1_000,
+      timeoutMs: 10_000,
+      signal: controller.signal,
+      description: 'the check'
+    })
+    controller.abort(new Error('build failed'))
+
+    await expect(promise).rejects.toThrow('build failed')
+  })
+
+  it('Does not check at all when the signal is already aborted', async () => {
+    let calls = 0
+    await expect(
+      poll(
+        async () => {
+          calls++
+          return true
+        },
+        {
+          intervalMs: 1,
+          timeoutMs: 1_000,
+          signal: AbortSignal.abort(new Error('cancelled')),
+          description: 'the check'
+        }
+      )
+    ).rejects.toThrow('cancelled')
+    expect(calls).toBe(0)
+  })
+
+  it('Times out a check that never settles', async () => {
+    const started = Date.now()
+
+    await expect(
+      poll(() => new Promise<undefined>(() => {}), {
+        intervalMs: 1,
+        timeoutMs: 20,
+        description: 'the check'
+      })
+    ).rejects.toThrow(PollTimeoutError)
+    expect(Date.now() - started).toBeLessThan(500)
+  })
+
+  it('Rejects when aborted during a check that never settles', async () => {
+    const controller = new AbortController()
+    const promise = poll(() => new Promise<undefined>(() => {}), {
+      intervalMs: 1,
+      timeoutMs: 10_000,
+      signal: controller.signal,
+      description: 'the check'
+    })
+    controller.abort(new Error('build failed'))
+
+    await expect(promise).rejects.toThrow('build failed')
+  })
+})
@@ -0,0 +1,49 @@
+import { parseDuration } from './duration.js'
+
+export type ChatOpsCommandName =
+  | 'deploy'
+  | 'redeploy'
+  | 'reset-db'
+  | 'destroy'
+  | 'extend-ttl'
+
+/**
+ * A deployment command issued by commenting on a PR, e.g. `/extend-ttl 48h`.
+ */
+export interface ChatOpsCommand {
+  name: ChatOpsCommandName
+  /** For `extend-ttl`: how long to keep the deployment, from now. */
+  ttlMs?: number
+  commentId: number
+  actor: string
+}
+
+const COMMAND_NAMES: ChatOpsCommandName[] = [
+  'deploy',
+  'redeploy',
+  'reset-db',
+  'destroy',
+  'extend-ttl'
+]
+
+/**
+ * Parses the command on the first line of a comment. Returns `undefined` for
+ * comments that are not a deployment command, and throws for a known command
+ * with invalid arguments.
+ */
+export function parseChatOpsCommand(
+  body: string
+): Pick<ChatOpsCommand, 'name' | 'ttlMs'> | undefined {
+  const [word, ...args] = body.trim().split('\n')[0].trim().split(/\s+/)
+  const name = word.startsWith('/') ? word.slice(1) : undefined
+  if (!COMMAND_NAMES.includes(name as ChatOpsCommandName)) {
+    return undefined
+  }
+  if (name === 'extend-ttl') {
+    if (args.length !== 1) {
+      throw new Error('Usage: /extend-ttl <duration>, e.g. /extend-ttl 48h')
+    }
+    return { name, ttlMs: parseDuration(args[0]) }
+  }
+  return { name: name as ChatOpsCommandName }
+}
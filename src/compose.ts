@@ -0,0 +1,220 @@
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { parse, stringify } from 'yaml'
+
+/** Services the action talks to while deploying. */
+const REQUIRED_SERVICES = [
+  'supabase-kong',
+  'supabase-db',
+  'supabase-rest',
+  'supabase-auth',
+  'supabase-edge-functions'
+]
+
+/**
+ * Env vars Coolify generates from the compose file and the action reads back
+ * from the service, e.g. to connect to the database or report the API URL.
+ */
+const REQUIRED_ENV_KEYS = [
+  'SERVICE_URL_SUPABASEKONG',
+  'SERVICE_PASSWORD_POSTGRES',
+  'SERVICE_SUPABASEANON_KEY',
+  'SERVICE_SUPABASESERVICE_KEY',
+  'SERVICE_USER_ADMIN',
+  'SERVICE_PASSWORD_ADMIN',
+  'POSTGRES_DB',
+  'POSTGRES_HOSTNAME',
+  'POSTGRES_PORT'
+]
+
+export interface ComposeOverlay {
+  /** Where the overlay was read from, for error messages and plans. */
+  source: string
+  doc: Record<string, unknown>
+}
+
+export class ComposeError extends Error {
+  constructor(source: string, message: string) {
+    super(`Invalid Supabase compose overlay ${source}: ${message}`)
+    this.name = 'ComposeError'
+  }
+}
+
+export async function loadComposeOverlay(
+  path: string
+): Promise<ComposeOverlay> {
+  if (!existsSync(path)) {
+    throw new Error(`Supabase compose overlay ${path} not found`)
+  }
+  let doc: unknown
+  try {
+    doc = parse(await readFile(path, 'utf-8'))
+  } catch (error) {
+    throw new ComposeError(path, `${error}`)
+  }
+  if (!isMapping(doc)) {
+    throw new ComposeError(path, 'the document must be a mapping')
+  }
+  console.log(`Using Supabase compose overlay ${path}`)
+  return { source: path, doc }
+}
+
+/**
+ * Deep-merges an overlay into the base compose file. Mappings are merged key
+ * by key, `environment` entries by variable name, and anything else in the
+ * overlay replaces the base value; `null` removes a key, e.g. a whole service.
+ * `depends_on` entries pointing at removed services are dropped with them.
+ * Throws a `ComposeError` when the result lacks a service or env var the
+ * action relies on, or when the overlay gives a service access to the host.
+ */
+export function mergeCompose(base: string, overlay: ComposeOverlay): string {
+  const baseDoc = parse(base) as Record<string, unknown>
+  const merged = mergeValues(baseDoc, overlay.doc, []) as Record<
+    string,
+    unknown
+  >
+  const services = isMapping(merged.services) ? merged.services : {}
+  const removed = new Set(
+    Object.keys(isMapping(baseDoc.services) ? baseDoc.services : {}).filter(
+      (name) => !(name in services)
+    )
+  )
+  const problems: string[] = []
+
+  const overlayServices = isMapping(overlay.doc.services)
+    ? overlay.doc.services
+    : {}
+  for (const [name, service] of Object.entries(overlayServices)) {
+    if (isMapping(service)) {
+      problems.push(...hostAccess(name, service))
+    }
+  }
+  for (const [name, service] of Object.entries(services)) {
+    if (!isMapping(service)) {
+      problems.push(`service ${name} must be a mapping`)
+      continue
+    }
+    // depends_on is a list of names or a mapping of name to condition
+    const dependsOn = service.depends_on
+    const deps = Array.isArray(dependsOn)
+      ? dependsOn.map(String)
+      : isMapping(dependsOn)
+        ? Object.keys(dependsOn)
+        : []
+    const kept = deps.filter((dep) => !removed.has(dep))
+    for (const dep of kept) {
+      if (!(dep in services)) {
+        problems.push(`service ${name} depends on unknown service ${dep}`)
+      }
+    }
+    if (kept.length === 0 && deps.length > 0) {
+      delete service.depends_on
+    } else if (kept.length < deps.length) {
+      service.depends_on = Array.isArray(dependsOn)
+        ? kept
+        : Object.fromEntries(
+            kept.map((dep) => [
+              dep,
+              (dependsOn as Record<string, unknown>)[dep]
+            ])
+          )
+    }
+  }
+  for (const name of REQUIRED_SERVICES) {
+    if (!isMapping(services[name])) {
+      problems.push(`service ${name} is required by the action`)
+    }
+  }
+  const text = stringify(merged, { lineWidth: 0 })
+  for (const key of REQUIRED_ENV_KEYS) {
+    if (!new RegExp(`(?<![A-Z0-9_])${key}`).test(text)) {
+      problems.push(`env ${key} is read by the action but no longer set`)
+    }
+  }
+  if (problems.length > 0) {
+    throw new ComposeError(overlay.source, problems.join('; '))
+  }
+  return text
+}
+
+/**
+ * Settings of an overlay service that reach out of its container onto the
+ * Coolify server, which every deployment shares. Relative bind mounts stay in
+ * the service's directory and named volumes are managed by Docker.
+ */
+function hostAccess(name: string, service: Record<string, unknown>): string[] {
+  const problems: string[] = []
+  if (service.privileged) {
+    problems.push(`service ${name} cannot be privileged`)
+  }
+  for (const key of ['network_mode', 'pid', 'ipc']) {
+    if (service[key] === 'host') {
+      problems.push(`service ${name} cannot use ${key}: host`)
+    }
+  }
+  const volumes = Array.isArray(service.volumes) ? service.volumes : []
+  for (const volume of volumes) {
+    // Either `source:target[:mode]` or a mapping with type and source
+    const source = isMapping(volume)
+      ? String(volume.source ?? '')
+      : String(volume).split(':')[0]
+    if (source.startsWith('/') || source.startsWith('~')) {
+      problems.push(`service ${name} cannot mount ${source} from the host`)
+    }
+  }
+  return problems
+}
+
+function mergeValues(base: unknown, overlay: unknown, path: string[]): unknown {
+  if (path[path.length - 1] === 'environment' && path.length === 3) {
+    return mergeEnvironment(base, overlay)
+  }
+  if (!isMapping(base) || !isMapping(overlay)) {
+    return overlay
+  }
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(overlay)) {
+    if (value === null) {
+      delete merged[key]
+    } else {
+      merged[key] =
+        key in base ? mergeValues(base[key], value, [...path, key]) : value
+    }
+  }
+  return merged
+}
+
+/**
+ * Merges a service's `environment`, which compose allows as a list of
+ * `KEY=value` strings or as a mapping. The result keeps the base's form.
+ */
+function mergeEnvironment(base: unknown, overlay: unknown): unknown {
+  if (overlay === null || overlay === undefined) {
+    return base
+  }
+  const vars = new Map([...envEntries(base), ...envEntries(overlay)])
+  if (Array.isArray(base)) {
+    return [...vars]
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => (value === undefined ? key : `${key}=${value}`))
+  }
+  return Object.fromEntries([...vars].filter(([, value]) => value !== null))
+}
+
+/**
+ * Entries of an `environment` list or mapping. `undefined` stands for a bare
+ * `KEY` (a value Coolify generates), `null` for a key the overlay removes.
+ */
+function envEntries(environment: unknown): [string, unknown][] {
+  if (Array.isArray(environment)) {
+    return environment.map((entry) => {
+      const [key, ...value] = String(entry).split('=')
+      return [key, value.length > 0 ? value.join('=') : undefined]
+    })
+  }
+  return isMapping(environment) ? Object.entries(environment) : []
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,348 @@
+import { randomBytes } from 'crypto'
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { parse } from 'yaml'
+import { registerSecret } from './secrets.js'
+
+/**
+ * Values derived from the deployment that env values can reference as
+ * `${name}`. Only `edge_function_secret` is known when the Supabase service is
+ * created, so it is the only one backend envs may use.
+ */
+export const DEPLOYMENT_VARS = [
+  'supabase_url',
+  'supabase_anon_key',
+  'supabase_service_role_key',
+  'postgres_db',
+  'postgres_hostname',
+  'postgres_port',
+  'postgres_password',
+  'edge_function_secret',
+  'app_url',
+  'git_commit_sha',
+  'bugsink_dsn',
+  'bugsink_host'
+] as const
+
+export type DeploymentVar = (typeof DEPLOYMENT_VARS)[number]
+
+export type DeploymentVars = Record<DeploymentVar, string>
+
+const BACKEND_VARS: readonly DeploymentVar[] = ['edge_function_secret']
+
+export type EnvSource =
+  /** A `${var}` template, or a plain literal. */
+  | { kind: 'value'; template: string }
+  /** An environment variable of the runner. */
+  | { kind: 'env'; name: string }
+  /** A random secret, generated when the resource is created. */
+  | { kind: 'generate' }
+
+export interface EnvEntry {
+  key: string
+  source: EnvSource
+  /** Skip the variable instead of failing when it resolves to empty. */
+  optional: boolean
+  /** Multi-line value; `\n` escapes (as in secrets) are unescaped. */
+  multiline: boolean
+}
+
+export interface DeployConfig {
+  backend: {
+    /** Written to a newly created Supabase service. */
+    env: EnvEntry[]
+  }
+  frontend: {
+    /** Runtime envs of a newly created frontend app. */
+    env: EnvEntry[]
+    /** Extra runtime envs for git-sourced (Nixpacks) frontend apps. */
+    nixpacks_env: EnvEntry[]
+    /** Docker build args of the frontend image. */
+    build_args: EnvEntry[]
+  }
+}
+
+export interface ResolvedEnv {
+  key: string
+  value: string
+  isMultiLine?: boolean
+}
+
+export class ConfigError extends Error {
+  constructor(source: string, message: string) {
+    super(`Invalid deployment config ${source}: ${message}`)
+    this.name = 'ConfigError'
+  }
+}
+
+/** What the action deploys when the repository has no config file. */
+const DEFAULT_CONFIG_YAML = `
+backend:
+  env:
+    GITHUB_APP_ID: { from_env: GITHUB_APP_ID }
+    GITHUB_OAUTH_CLIENT_ID: { from_env: GITHUB_OAUTH_CLIENT_ID }
+    GITHUB_OAUTH_CLIENT_SECRET: { from_env: GITHUB_OAUTH_CLIENT_SECRET }
+    GITHUB_PRIVATE_KEY_STRING:
+      { from_env: GITHUB_PRIVATE_KEY_STRING, multiline: true }
+    AWS_ACCESS_KEY_ID: { from_env: AWS_ACCESS_KEY_ID }
+    AWS_SECRET_ACCESS_KEY: { from_env: AWS_SECRET_ACCESS_KEY }
+    EDGE_FUNCTION_SECRET: \${edge_function_secret}
+    PGRST_DB_SCHEMAS: public,graphql_public,pgmq_public
+    SENTRY_DSN: { from_env: SENTRY_DSN, optional: true }
+    UPSTASH_REDIS_REST_URL: { from_env: UPSTASH_REDIS_REST_URL, optional: true }
+    UPSTASH_REDIS_REST_TOKEN:
+      { from_env: UPSTASH_REDIS_REST_TOKEN, optional: true }
+frontend:
+  env:
+    POSTGRES_DB: \${postgres_db}
+    POSTGRES_HOSTNAME: \${postgres_hostname}
+    POSTGRES_PORT: \${postgres_port}
+    POSTGRES_PASSWORD: \${postgres_password}
+    SUPABASE_SERVICE_ROLE_KEY: \${supabase_service_role_key}
+  nixpacks_env:
+    NEXT_PUBLIC_SUPABASE_URL: \${supabase_url}
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: \${supabase_anon_key}
+    NEXT_PUBLIC_BUGSINK_DSN: { value: '\${bugsink_dsn}', optional: true }
+    NEXT_PUBLIC_BUGSINK_HOST: { value: '\${bugsink_host}', optional: true }
+    VERCEL_GIT_COMMIT_SHA: $SOURCE_COMMIT
+  build_args:
+    NEXT_PUBLIC_SUPABASE_URL: \${supabase_url}
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: \${supabase_anon_key}
+    NEXT_PUBLIC_PAWTOGRADER_WEB_URL: \${app_url}
+    NEXT_PUBLIC_BUGSINK_DSN: { value: '\${bugsink_dsn}', optional: true }
+    NEXT_PUBLIC_BUGSINK_HOST: { value: '\${bugsink_host}', optional: true }
+    NEXT_PUBLIC_GIT_COMMIT_SHA: \${git_commit_sha}
+    SUPABASE_URL: \${supabase_url}
+    SENTRY_RELEASE: \${git_commit_sha}
+`
+
+export const DEFAULT_DEPLOY_CONFIG = parseDeployConfig(
+  DEFAULT_CONFIG_YAML,
+  'built-in default'
+)
+
+/**
+ * Loads the deployment config at `path`. A missing file falls back to the
+ * built-in default unless `required` is set.
+ */
+export async function loadDeployConfig(
+  path: string,
+  { required }: { required: boolean }
+): Promise<DeployConfig> {
+  if (!existsSync(path)) {
+    if (required) {
+      throw new Error(`Deployment config ${path} not found`)
+    }
+    return DEFAULT_DEPLOY_CONFIG
+  }
+  console.log(`Using deployment config ${path}`)
+  return parseDeployConfig(await readFile(path, 'utf-8'), path)
+}
+
+export function parseDeployConfig(text: string, source: string): DeployConfig {
+  let doc: unknown
+  try {
+    doc = parse(text)
+  } catch (error) {
+    throw new ConfigError(source, `${error}`)
+  }
+  const root = asRecord(doc ?? {}, 'the document', source)
+  checkKeys(root, ['backend', 'frontend'], 'the document', source)
+  const backend = asRecord(root.backend ?? {}, 'backend', source)
+  checkKeys(backend, ['env'], 'backend', source)
+  const frontend = asRecord(root.frontend ?? {}, 'frontend', source)
+  checkKeys(frontend, ['env', 'nixpacks_env', 'build_args'], 'frontend', source)
+
+  return {
+    backend: {
+      env: parseEnvs(backend.env, 'backend.env', source, {
+        vars: BACKEND_VARS
+      })
+    },
+    frontend: {
+      env: parseEnvs(frontend.env, 'frontend.env', source),
+      nixpacks_env: parseEnvs(
+        frontend.nixpacks_env,
+        'frontend.nixpacks_env',
+        source
+      ),
+      build_args: parseEnvs(
+        frontend.build_args,
+        'frontend.build_args',
+        source,
+        { allowGenerate: false }
+      )
+    }
+  }
+}
+
+function parseEnvs(
+  value: unknown,
+  path: string,
+  source: string,
+  {
+    vars: allowedVars = DEPLOYMENT_VARS,
+    allowGenerate = true
+  }: { vars?: readonly DeploymentVar[]; allowGenerate?: boolean } = {}
+): EnvEntry[] {
+  const envs = asRecord(value ?? {}, path, source)
+  return Object.entries(envs).map(([key, spec]) => {
+    const where = `${path}.${key}`
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      throw new ConfigError(source, `${where} is not a valid variable name`)
+    }
+    if (typeof spec === 'string' || typeof spec === 'number') {
+      return {
+        key,
+        source: parseTemplate(String(spec), where, source, allowedVars),
+        optional: false,
+        multiline: false
+      }
+    }
+    const entry = asRecord(spec, where, source)
+    checkKeys(
+      entry,
+      ['value', 'from_env', 'generate', 'optional', 'multiline'],
+      where,
+      source
+    )
+    const sources = ['value', 'from_env', 'generate'].filter(
+      (k) => entry[k] !== undefined
+    )
+    if (sources.length !== 1) {
+      throw new ConfigError(
+        source,
+        `${where} needs exactly one of value, from_env or generate`
+      )
+    }
+    let envSource: EnvSource
+    if (entry.value !== undefined) {
+      envSource = parseTemplate(String(entry.value), where, source, allowedVars)
+    } else if (entry.from_env !== undefined) {
+      if (typeof entry.from_env !== 'string') {
+        throw new ConfigError(source, `${where}.from_env must be a string`)
+      }
+      envSource = { kind: 'env', name: entry.from_env }
+    } else {
+      if (entry.generate !== 'secret') {
+        throw new ConfigError(source, `${where}.generate must be "secret"`)
+      }
+      if (!allowGenerate) {
+        throw new ConfigError(
+          source,
+          `${where} cannot be generated, build args are not stored`
+        )
+      }
+      envSource = { kind: 'generate' }
+    }
+    for (const flag of ['optional', 'multiline']) {
+      if (entry[flag] !== undefined && typeof entry[flag] !== 'boolean') {
+        throw new ConfigError(source, `${where}.${flag} must be true or false`)
+      }
+    }
+    return {
+      key,
+      source: envSource,
+      optional: entry.optional === true,
+      multiline: entry.multiline === true
+    }
+  })
+}
+
+function parseTemplate(
+  template: string,
+  where: string,
+  source: string,
+  allowedVars: readonly DeploymentVar[]
+): EnvSource {
+  for (const [, name] of template.matchAll(/\$\{([^}]*)\}/g)) {
+    if (!allowedVars.includes(name as DeploymentVar)) {
+      throw new ConfigError(
+        source,
+        `${where} references unknown variable \${${name}} (available: ${allowedVars.join(', ')})`
+      )
+    }
+  }
+  return { kind: 'value', template }
+}
+
+function asRecord(
+  value: unknown,
+  where: string,
+  source: string
+): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ConfigError(source, `${where} must be a mapping`)
+  }
+  return value as Record<string, unknown>
+}
+
+function checkKeys(
+  record: Record<string, unknown>,
+  allowed: string[],
+  where: string,
+  source: string
+) {
+  const unknown = Object.keys(record).filter((key) => !allowed.includes(key))
+  if (unknown.length > 0) {
+    throw new ConfigError(
+      source,
+      `unknown key ${unknown.join(', ')} in ${where} (expected ${allowed.join(', ')})`
+    )
+  }
+}
+
+/**
+ * Resolves env entries to their values. Optional entries that resolve to an
+ * empty value are left out; required ones throw.
+ */
+export function resolveEnvs(
+  entries: EnvEntry[],
+  vars: Partial<DeploymentVars>
+): ResolvedEnv[] {
+  const resolved: ResolvedEnv[] = []
+  for (const entry of entries) {
+    let value: string | undefined
+    switch (entry.source.kind) {
+      case 'value':
+        value = entry.source.template.replace(
+          /\$\{(\w+)\}/g,
+          (_, name: DeploymentVar) => vars[name] ?? ''
+        )
+        break
+      case 'env':
+        value = process.env[entry.source.name]
+        break
+      case 'generate':
+        value = randomBytes(32).toString('hex')
+        registerSecret(value)
+        break
+    }
+    if (entry.multiline) {
+      value = value?.replace(/\\n/g, '\n')
+    }
+    if (!value) {
+      if (entry.optional) {
+        continue
+      }
+      throw new Error(`Env ${entry.key} has no value`)
+    }
+    resolved.push({ key: entry.key, value, isMultiLine: entry.multiline })
+  }
+  return resolved
+}
+
+/**
+ * The keys `resolveEnvs` would produce, without resolving any value that
+ * depends on the deployment. Used for dry-run plans.
+ */
+export function envKeys(entries: EnvEntry[]): string[] {
+  return entries
+    .filter(
+      (entry) =>
+        !entry.optional ||
+        entry.source.kind !== 'env' ||
+        !!process.env[entry.source.name]
+    )
+    .map((entry) => entry.key)
+}
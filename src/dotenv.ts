@@ -0,0 +1,126 @@
+import {
+  constants,
+  createCipheriv,
+  pbkdf2Sync,
+  publicEncrypt,
+  randomBytes
+} from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { DeploymentInfo } from './types.js'
+
+/**
+ * How credentials are included in notifications: `full` posts values,
+ * `redacted` lists variable names only, `none` omits them entirely.
+ */
+export type SecretPolicy = 'full' | 'redacted' | 'none'
+
+const PBKDF2_ITERATIONS = 100000
+
+/**
+ * The environment a developer needs to run the app against a deployment,
+ * grouped the way it is pasted into a local `.env`.
+ */
+export function deploymentEnv(
+  deployment: DeploymentInfo
+): { comment: string; vars: [string, string][] }[] {
+  return [
+    {
+      comment: 'Database',
+      vars: [
+        ['POSTGRES_DB', deployment.postgres_db],
+        ['POSTGRES_HOSTNAME', deployment.postgres_hostname],
+        ['POSTGRES_PORT', deployment.postgres_port],
+        ['POSTGRES_PASSWORD', deployment.postgres_password]
+      ]
+    },
+    {
+      comment: 'Supabase',
+      vars: [
+        ['SUPABASE_URL', deployment.supabase_url],
+        ['SUPABASE_ANON_KEY', deployment.supabase_anon_key],
+        ['SUPABASE_SERVICE_ROLE_KEY', deployment.supabase_service_role_key],
+        ['NEXT_PUBLIC_SUPABASE_URL', deployment.supabase_url],
+        ['NEXT_PUBLIC_SUPABASE_ANON_KEY', deployment.supabase_anon_key]
+      ]
+    },
+    {
+      comment: 'Studio',
+      vars: [
+        ['STUDIO_USER', deployment.studio_user],
+        ['STUDIO_PASSWORD', deployment.studio_password],
+        ['STUDIO_URL', deployment.supabase_url]
+      ]
+    },
+    {
+      comment: 'App',
+      vars: [
+        ['NEXT_PUBLIC_PAWTOGRADER_URL', deployment.appURL],
+        ['NEXT_PUBLIC_PAWTOGRADER_WEB_URL', deployment.appURL]
+      ]
+    }
+  ]
+}
+
+export function renderDotEnv(deployment: DeploymentInfo): string {
+  return deploymentEnv(deployment)
+    .map(
+      ({ comment, vars }) =>
+        `# ${comment}\n${vars.map(([key, value]) => `${key}=${value}`).join('\n')}`
+    )
+    .join('\n\n')
+}
+
+export function dotEnvKeys(deployment: DeploymentInfo): string[] {
+  return deploymentEnv(deployment).flatMap(({ vars }) =>
+    vars.map(([key]) => key)
+  )
+}
+
+/**
+ * Encrypts the deployment's `.env` for holders of the team's RSA private key,
+ * in a format the `openssl` CLI can decrypt:
+ *
+ *   openssl pkeyutl -decrypt -inkey team.pem -pkeyopt rsa_padding_mode:oaep \
+ *     -in env.key.enc -out env.key
+ *   openssl enc -d -aes-256-cbc -pbkdf2 -iter 100000 -md sha256 \
+ *     -pass file:env.key -in env.enc -out .env
+ *
+ * Returns the directory the files were written to.
+ */
+export async function writeEncryptedDotEnv({
+  deployment,
+  publicKeyPem,
+  outputDir
+}: {
+  deployment: DeploymentInfo
+  publicKeyPem: string
+  outputDir: string
+}): Promise<string> {
+  const passphrase = randomBytes(32).toString('hex')
+  const salt = randomBytes(8)
+  const derived = pbkdf2Sync(passphrase, salt, PBKDF2_ITERATIONS, 48, 'sha256')
+  const cipher = createCipheriv(
+    'aes-256-cbc',
+    derived.subarray(0, 32),
+    derived.subarray(32)
+  )
+  const encryptedEnv = Buffer.concat([
+    Buffer.from('Salted__'),
+    salt,
+    cipher.update(renderDotEnv(deployment) + '\n'),
+    cipher.final()
+  ])
+  const encryptedKey = publicEncrypt(
+    {
+      key: publicKeyPem.replace(/\\n/g, '\n'),
+      padding: constants.RSA_PKCS1_OAEP_PADDING
+    },
+    Buffer.from(passphrase)
+  )
+
+  await mkdir(outputDir, { recursive: true })
+  await writeFile(join(outputDir, 'env.enc'), encryptedEnv)
+  await writeFile(join(outputDir, 'env.key.enc'), encryptedKey)
+  return outputDir
+}
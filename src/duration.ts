@@ -0,0 +1,31 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+}
+
+export type DurationUnit = 's' | 'm' | 'h' | 'd'
+
+/**
+ * Parses a duration such as `90m`, `24h` or `7d` into milliseconds. A bare
+ * number is interpreted in `defaultUnit`, hours unless given. Zero is rejected:
+ * no interval, timeout or TTL makes sense without a length.
+ */
+export function parseDuration(
+  value: string,
+  defaultUnit: DurationUnit = 'h'
+): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd])?$/i)
+  if (!match) {
+    throw new Error(
+      `Invalid duration "${value}" (expected e.g. 30m, 24h or 7d)`
+    )
+  }
+  const unit = (match[2] ?? defaultUnit).toLowerCase()
+  const ms = Math.round(parseFloat(match[1]) * UNIT_MS[unit])
+  if (ms <= 0) {
+    throw new Error(`Invalid duration "${value}" (must be longer than 0)`)
+  }
+  return ms
+}
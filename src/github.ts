@@ -0,0 +1,344 @@
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message)
+    this.name = 'GitHubApiError'
+  }
+}
+
+export interface IssueComment {
+  id: number
+  body: string
+}
+
+export interface PullRequest {
+  number: number
+  html_url: string
+  title: string
+  state: 'open' | 'closed'
+  merged: boolean
+  labels: { name: string }[]
+  head: {
+    ref: string
+    sha: string
+    repo: {
+      full_name: string
+    } | null
+  }
+}
+
+export type ReactionContent =
+  | '+1'
+  | '-1'
+  | 'laugh'
+  | 'confused'
+  | 'heart'
+  | 'hooray'
+  | 'rocket'
+  | 'eyes'
+
+export type GitHubDeploymentState =
+  | 'in_progress'
+  | 'success'
+  | 'failure'
+  | 'error'
+  | 'inactive'
+
+export interface CheckRunAnnotation {
+  path: string
+  start_line: number
+  end_line: number
+  annotation_level: 'notice' | 'warning' | 'failure'
+  title?: string
+  message: string
+}
+
+/** GitHub accepts at most this many annotations per check run update. */
+const MAX_ANNOTATIONS_PER_REQUEST = 50
+
+/**
+ * A minimal GitHub REST client bound to one repository. It honors
+ * `GITHUB_API_URL` (GitHub Enterprise Server), follows `Link` pagination and
+ * retries requests rejected by the primary or secondary rate limits.
+ */
+export class GitHubClient {
+  private readonly token: string
+  private readonly repository: string
+  private readonly apiUrl: string
+  private readonly maxRetries: number
+
+  constructor({
+    token,
+    repository,
+    apiUrl = process.env.GITHUB_API_URL || 'https://api.github.com',
+    maxRetries = 3
+  }: {
+    token: string
+    /** `owner/name` */
+    repository: string
+    apiUrl?: string
+    maxRetries?: number
+  }) {
+    this.token = token
+    this.repository = repository
+    this.apiUrl = apiUrl.replace(/\/+$/, '')
+    this.maxRetries = maxRetries
+  }
+
+  /**
+   * Sends a request to a path relative to the API root, e.g.
+   * `/repos/{owner}/{repo}/deployments`, and returns the parsed JSON body.
+   */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.fetch(method, this.url(path), body)
+    if (response.status === 204) {
+      return undefined as T
+    }
+    return (await response.json()) as T
+  }
+
+  /** Fetches every page of a list endpoint by following `Link: rel="next"`. */
+  async paginate<T>(path: string): Promise<T[]> {
+    const items: T[] = []
+    let url: string | undefined = this.url(path)
+    while (url) {
+      const response = await this.fetch('GET', url)
+      items.push(...((await response.json()) as T[]))
+      url = nextPageUrl(response.headers.get('link'))
+    }
+    return items
+  }
+
+  listIssueComments(issueNumber: number): Promise<IssueComment[]> {
+    return this.paginate(
+      `${this.repoPath}/issues/${issueNumber}/comments?per_page=100`
+    )
+  }
+
+  createIssueComment(issueNumber: number, body: string): Promise<IssueComment> {
+    return this.request(
+      'POST',
+      `${this.repoPath}/issues/${issueNumber}/comments`,
+      { body }
+    )
+  }
+
+  updateIssueComment(commentId: number, body: string): Promise<IssueComment> {
+    return this.request(
+      'PATCH',
+      `${this.repoPath}/issues/comments/${commentId}`,
+      { body }
+    )
+  }
+
+  createCommentReaction(
+    commentId: number,
+    content: ReactionContent
+  ): Promise<unknown> {
+    return this.request(
+      'POST',
+      `${this.repoPath}/issues/comments/${commentId}/reactions`,
+      { content }
+    )
+  }
+
+  getPullRequest(pullNumber: number): Promise<PullRequest> {
+    return this.request('GET', `${this.repoPath}/pulls/${pullNumber}`)
+  }
+
+  /**
+   * The user's permission on the repository: `admin`, `write` (which includes
+   * the maintain role), `read` or `none`.
+   */
+  async getCollaboratorPermission(username: string): Promise<string> {
+    const { permission } = await this.request<{ permission: string }>(
+      'GET',
+      `${this.repoPath}/collaborators/${encodeURIComponent(username)}/permission`
+    )
+    return permission
+  }
+
+  createDeployment(params: {
+    ref: string
+    environment: string
+    transient_environment: boolean
+    production_environment: boolean
+    description: string
+  }): Promise<{ id: number }> {
+    return this.request('POST', `${this.repoPath}/deployments`, {
+      ...params,
+      auto_merge: false,
+      required_contexts: []
+    })
+  }
+
+  listDeployments(environment: string): Promise<{ id: number }[]> {
+    return this.paginate(
+      `${this.repoPath}/deployments?environment=${encodeURIComponent(environment)}&per_page=100`
+    )
+  }
+
+  async createDeploymentStatus(
+    deploymentId: number,
+    params: {
+      state: GitHubDeploymentState
+      environment_url?: string
+      log_url?: string
+      description?: string
+      auto_inactive?: boolean
+    }
+  ): Promise<void> {
+    await this.request(
+      'POST',
+      `${this.repoPath}/deployments/${deploymentId}/statuses`,
+      params
+    )
+  }
+
+  createCheckRun(params: {
+    name: string
+    head_sha: string
+    details_url?: string
+  }): Promise<{ id: number }> {
+    return this.request('POST', `${this.repoPath}/check-runs`, {
+      ...params,
+      status: 'in_progress',
+      started_at: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Completes a check run. Annotations beyond the per-request limit are sent in
+   * follow-up updates, which GitHub appends to the existing ones.
+   */
+  async completeCheckRun(
+    checkRunId: number,
+    {
+      conclusion,
+      title,
+      summary,
+      annotations
+    }: {
+      conclusion: 'success' | 'failure' | 'cancelled'
+      title: string
+      summary: string
+      annotations: CheckRunAnnotation[]
+    }
+  ): Promise<void> {
+    const path = `${this.repoPath}/check-runs/${checkRunId}`
+    await this.request('PATCH', path, {
+      status: 'completed',
+      conclusion,
+      completed_at: new Date().toISOString(),
+      output: {
+        title,
+        summary,
+        annotations: annotations.slice(0, MAX_ANNOTATIONS_PER_REQUEST)
+      }
+    })
+    for (
+      let i = MAX_ANNOTATIONS_PER_REQUEST;
+      i < annotations.length;
+      i += MAX_ANNOTATIONS_PER_REQUEST
+    ) {
+      await this.request('PATCH', path, {
+        output: {
+          title,
+          summary,
+          annotations: annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST)
+        }
+      })
+    }
+  }
+
+  async listOpenPullRequestNumbers(): Promise<number[]> {
+    const pulls = await this.paginate<{ number: number }>(
+      `${this.repoPath}/pulls?state=open&per_page=100`
+    )
+    return pulls.map((pull) => pull.number)
+  }
+
+  async listBranchNames(): Promise<string[]> {
+    const branches = await this.paginate<{ name: string }>(
+      `${this.repoPath}/branches?per_page=100`
+    )
+    return branches.map((b) => b.name)
+  }
+
+  private get repoPath(): string {
+    return `/repos/${this.repository}`
+  }
+
+  private url(path: string): string {
+    return `${this.apiUrl}${path}`
+  }
+
+  private async fetch(
+    method: string,
+    url: string,
+    body?: unknown
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `token ${this.token}`,
+          Accept: 'application/vnd.github+json',
+          'X-GitHub-Api-Version': '2022-11-28',
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+      if (response.ok) {
+        return response
+      }
+      const text = await response.text()
+      const retryAfterMs = rateLimitDelayMs(response, text, attempt)
+      if (retryAfterMs !== undefined && attempt < this.maxRetries) {
+        console.log(
+          `GitHub rate limit hit on ${method} ${url}, retrying in ${Math.ceil(retryAfterMs / 1000)}s`
+        )
+        await new Promise((resolve) => setTimeout(resolve, retryAfterMs))
+        continue
+      }
+      throw new GitHubApiError(
+        `GitHub API ${method} ${url} failed: ${response.status} ${response.statusText} ${text}`.trim(),
+        response.status
+      )
+    }
+  }
+}
+
+function nextPageUrl(link: string | null): string | undefined {
+  return link?.match(/<([^>]+)>;\s*rel="next"/)?.[1]
+}
+
+/**
+ * How long to wait before retrying a rate-limited request, following GitHub's
+ * guidance: honor `retry-after`, else wait for `x-ratelimit-reset` when the
+ * primary limit is exhausted, else back off exponentially from one minute.
+ * Returns `undefined` when the response is not a rate limit error.
+ */
+function rateLimitDelayMs(
+  response: Response,
+  body: string,
+  attempt: number
+): number | undefined {
+  if (response.status !== 403 && response.status !== 429) {
+    return undefined
+  }
+  const retryAfter = response.headers.get('retry-after')
+  if (retryAfter) {
+    return parseInt(retryAfter, 10) * 1000
+  }
+  const reset = response.headers.get('x-ratelimit-reset')
+  if (response.headers.get('x-ratelimit-remaining') === '0' && reset) {
+    return Math.max(parseInt(reset, 10) * 1000 - Date.now(), 0) + 1000
+  }
+  if (response.status === 429 || /rate limit/i.test(body)) {
+    return 60_000 * 2 ** attempt
+  }
+  return undefined
+}
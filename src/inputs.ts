@@ -0,0 +1,363 @@
+import { getInput } from '@actions/core'
+import { createPublicKey } from 'crypto'
+import { CoolifyOptions } from './coolify.js'
+import { SecretPolicy } from './dotenv.js'
+import { DurationUnit, parseDuration } from './duration.js'
+import { DEPLOYMENT_NAMINGS, DeploymentNaming } from './naming.js'
+import { NotificationEventType } from './notifiers.js'
+
+export type ActionMode = 'deploy' | 'reap' | 'audit' | 'rollback' | 'promote'
+
+const MODES: ActionMode[] = ['deploy', 'reap', 'audit', 'rollback', 'promote']
+
+const SECRET_POLICIES: SecretPolicy[] = ['full', 'redacted', 'none']
+
+const NOTIFICATION_EVENTS: NotificationEventType[] = [
+  'deploy-success',
+  'deploy-failure',
+  'cleanup'
+]
+
+/**
+ * Coolify resource UUIDs are cuid2 strings (7 characters on older instances,
+ * 24 on current ones); RFC 4122 UUIDs are accepted as well.
+ */
+const COOLIFY_UUID =
+  /^(?:[a-z0-9]{7,32}|[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12})$/i
+
+const HOSTNAME = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i
+
+/** The action inputs, validated and converted to the types they stand for. */
+export interface ActionInputs {
+  mode: ActionMode
+  rollback_to?: string
+  promote_from?: string
+  promote_to?: string
+  dry_run: boolean
+  ephemeral: boolean
+  ephemeral_ttl_ms: number
+  audit_delete_orphans: boolean
+  reset_supabase_db: boolean
+  cleanup_service_uuid?: string
+  cleanup_app_uuid?: string
+  deploy_config?: string
+  supabase_compose_overlay?: string
+  deployment_naming: DeploymentNaming
+  discord_webhook_url?: string
+  slack_webhook_url?: string
+  teams_webhook_url?: string
+  notification_webhook_url?: string
+  notification_secrets: SecretPolicy
+  notify_on: NotificationEventType[]
+  env_encryption_public_key?: string
+  preview_label?: string
+  github_token?: string
+  github_deployments: boolean
+  github_check_run: boolean
+  frontend_image_repo?: string
+  dockerfile_path?: string
+  docker_registry_username?: string
+  docker_registry_password?: string
+  /** Everything but the files read from the checkout. */
+  coolify: Omit<CoolifyOptions, 'deploy_config' | 'supabase_compose_overlay'>
+}
+
+export class InputError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid action inputs:\n${problems.map((p) => `  - ${p}`).join('\n')}`
+    )
+    this.name = 'InputError'
+  }
+}
+
+/**
+ * Reads inputs, collecting every problem instead of stopping at the first so
+ * a misconfigured workflow can be fixed in one go. Empty inputs fall back to
+ * the defaults of action.yml.
+ */
+class InputReader {
+  readonly problems: string[] = []
+
+  constructor(private read: (name: string) => string) {}
+
+  string(name: string, { required = false } = {}): string | undefined {
+    const value = this.read(name).trim()
+    if (!value && required) {
+      this.problems.push(`${name} is required`)
+    }
+    return value || undefined
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const value = this.string(name)?.toLowerCase()
+    if (value === undefined) {
+      return fallback
+    }
+    if (value !== 'true' && value !== 'false') {
+      this.problems.push(`${name} must be true or false, got "${value}"`)
+      return fallback
+    }
+    return value === 'true'
+  }
+
+  oneOf<T extends string>(name: string, values: T[], fallback: T): T {
+    const value = this.string(name) ?? fallback
+    if (!values.includes(value as T)) {
+      this.problems.push(
+        `${name} must be one of ${values.join(', ')}, got "${value}"`
+      )
+      return fallback
+    }
+    return value as T
+  }
+
+  url(name: string, { required = false } = {}): string | undefined {
+    const value = this.string(name, { required })
+    if (value === undefined) {
+      return undefined
+    }
+    try {
+      const { protocol } = new URL(value)
+      if (protocol !== 'https:' && protocol !== 'http:') {
+        throw new Error(protocol)
+      }
+    } catch {
+      this.problems.push(`${name} must be an http(s) URL, got "${value}"`)
+    }
+    return value
+  }
+
+  uuid(name: string, { required = false } = {}): string | undefined {
+    const value = this.string(name, { required })
+    if (value !== undefined && !COOLIFY_UUID.test(value)) {
+      this.problems.push(`${name} is not a Coolify UUID: "${value}"`)
+    }
+    return value
+  }
+
+  /** A bare number is read in `defaultUnit`, as documented per input. */
+  durationMs(
+    name: string,
+    fallback: string,
+    defaultUnit: DurationUnit = 'h'
+  ): number {
+    const value = this.string(name) ?? fallback
+    try {
+      return parseDuration(value, defaultUnit)
+    } catch (error) {
+      this.problems.push(`${name}: ${(error as Error).message}`)
+      return parseDuration(fallback, defaultUnit)
+    }
+  }
+
+  number(
+    name: string,
+    fallback: number,
+    { min, integer = false }: { min: number; integer?: boolean }
+  ): number {
+    const value = this.string(name)
+    if (value === undefined) {
+      return fallback
+    }
+    const parsed = Number(value)
+    if (!Number.isFinite(parsed) || parsed < min) {
+      this.problems.push(`${name} must be a number >= ${min}, got "${value}"`)
+      return fallback
+    }
+    if (integer && !Number.isInteger(parsed)) {
+      this.problems.push(`${name} must be a whole number, got "${value}"`)
+      return fallback
+    }
+    return parsed
+  }
+
+  check(condition: boolean, problem: string) {
+    if (!condition) {
+      this.problems.push(problem)
+    }
+  }
+}
+
+/**
+ * Parses and validates the action inputs, including the ones that only make
+ * sense together. Throws an `InputError` listing every problem found.
+ */
+export function parseInputs(
+  read: (name: string) => string = getInput
+): ActionInputs {
+  const input = new InputReader(read)
+
+  const mode = input.oneOf('mode', MODES, 'deploy')
+  const rollback_to = input.string('rollback_to')
+  const promote_from = input.string('promote_from')
+  const promote_to = input.string('promote_to')
+  const dry_run = input.boolean('dry_run', false)
+  const ephemeral = input.boolean('ephemeral', false)
+  const reset_supabase_db = input.boolean('reset_supabase_db', false)
+  const cleanup_service_uuid = input.uuid('cleanup_service_uuid')
+  const cleanup_app_uuid = input.uuid('cleanup_app_uuid')
+  const base_deployment_url =
+    input.string('base_deployment_url') ?? 'dev.pawtograder.net'
+  const env_encryption_public_key = input.string('env_encryption_public_key')
+  const frontend_image_repo = input.string('frontend_image_repo')
+  const docker_registry_username = input.string('docker_registry_username')
+  const docker_registry_password = input.string('docker_registry_password')
+  const notify_on = (input.string('notify_on') ?? NOTIFICATION_EVENTS.join(','))
+    .split(',')
+    .map((event) => event.trim()) as NotificationEventType[]
+
+  input.check(
+    HOSTNAME.test(base_deployment_url),
+    `base_deployment_url must be a host name such as dev.pawtograder.net, got "${base_deployment_url}"`
+  )
+  for (const event of notify_on) {
+    input.check(
+      NOTIFICATION_EVENTS.includes(event),
+      `notify_on has unknown event "${event}" (expected ${NOTIFICATION_EVENTS.join(', ')})`
+    )
+  }
+  if (env_encryption_public_key) {
+    try {
+      createPublicKey(env_encryption_public_key)
+    } catch (error) {
+      input.problems.push(
+        `env_encryption_public_key is not a PEM public key: ${(error as Error).message}`
+      )
+    }
+  }
+  input.check(
+    mode === 'promote' || !promote_from,
+    'promote_from is only used in the promote mode'
+  )
+  input.check(
+    mode === 'promote' || !promote_to,
+    'promote_to is only used in the promote mode'
+  )
+  input.check(
+    mode !== 'promote' || !!promote_from,
+    'promote_from is required in the promote mode'
+  )
+  input.check(
+    mode !== 'promote' ||
+      (!!frontend_image_repo &&
+        !!docker_registry_username &&
+        !!docker_registry_password),
+    'the promote mode rebuilds the frontend image and requires frontend_image_repo, docker_registry_username and docker_registry_password'
+  )
+  input.check(
+    mode === 'rollback' || !rollback_to,
+    'rollback_to is only used in the rollback mode'
+  )
+  input.check(
+    !dry_run || (mode !== 'rollback' && mode !== 'promote'),
+    `dry_run is not supported in the ${mode} mode`
+  )
+  input.check(
+    mode !== 'deploy' ||
+      !frontend_image_repo ||
+      (!!docker_registry_username && !!docker_registry_password),
+    'frontend_image_repo requires docker_registry_username and docker_registry_password'
+  )
+  if (cleanup_service_uuid || cleanup_app_uuid) {
+    input.check(
+      mode === 'deploy',
+      `cleanup_service_uuid and cleanup_app_uuid cannot be used in the ${mode} mode`
+    )
+    input.check(
+      !ephemeral,
+      'cleanup_service_uuid and cleanup_app_uuid cannot be combined with ephemeral'
+    )
+    input.check(
+      !reset_supabase_db,
+      'cleanup_service_uuid and cleanup_app_uuid cannot be combined with reset_supabase_db'
+    )
+  }
+
+  const inputs: ActionInputs = {
+    mode,
+    rollback_to,
+    promote_from,
+    promote_to,
+    dry_run,
+    ephemeral,
+    ephemeral_ttl_ms: input.durationMs('ephemeral_ttl', '24h'),
+    audit_delete_orphans: input.boolean('audit_delete_orphans', false),
+    reset_supabase_db,
+    cleanup_service_uuid,
+    cleanup_app_uuid,
+    deploy_config: input.string('deploy_config'),
+    supabase_compose_overlay: input.string('supabase_compose_overlay'),
+    deployment_naming: input.oneOf(
+      'deployment_naming',
+      DEPLOYMENT_NAMINGS,
+      'branch'
+    ),
+    discord_webhook_url: input.url('discord_webhook_url'),
+    slack_webhook_url: input.url('slack_webhook_url'),
+    teams_webhook_url: input.url('teams_webhook_url'),
+    notification_webhook_url: input.url('notification_webhook_url'),
+    notification_secrets: input.oneOf(
+      'notification_secrets',
+      SECRET_POLICIES,
+      'redacted'
+    ),
+    notify_on,
+    env_encryption_public_key,
+    preview_label: input.string('preview_label'),
+    github_token: input.string('github_token'),
+    github_deployments: input.boolean('github_deployments', false),
+    github_check_run: input.boolean('github_check_run', false),
+    frontend_image_repo,
+    dockerfile_path: input.string('dockerfile_path'),
+    docker_registry_username,
+    docker_registry_password,
+    coolify: {
+      baseUrl: input.url('coolify_api_url', { required: true }) ?? '',
+      token: input.string('coolify_api_token', { required: true }) ?? '',
+      project_uuid:
+        input.uuid('coolify_project_uuid', { required: true }) ?? '',
+      environment_uuid:
+        input.uuid('coolify_environment_uuid', { required: true }) ?? '',
+      environment_name:
+        input.string('coolify_environment_name', { required: true }) ?? '',
+      server_uuid: input.uuid('coolify_server_uuid'),
+      supabase_api_url:
+        input.url('coolify_supabase_api_url', { required: true }) ?? '',
+      base_deployment_url,
+      bugsink_dsn: input.url('bugsink_dsn') ?? '',
+      github_app_uuid: input.uuid('deployment_app_uuid'),
+      private_key_uuid: input.uuid('deployment_private_key_uuid'),
+      delete_options: {
+        delete_volumes: input.boolean('cleanup_delete_volumes', true),
+        delete_configurations: input.boolean(
+          'cleanup_delete_configurations',
+          true
+        ),
+        docker_cleanup: input.boolean('cleanup_docker_cleanup', true),
+        delete_connected_networks: input.boolean(
+          'cleanup_delete_connected_networks',
+          true
+        )
+      },
+      polling: {
+        intervalMs: input.durationMs('poll_interval', '5s', 's'),
+        backoff: input.number('poll_backoff', 1, { min: 1 }),
+        serviceTimeoutSeconds:
+          input.durationMs('service_ready_timeout', '20m', 's') / 1000,
+        appTimeoutSeconds:
+          input.durationMs('app_ready_timeout', '20m', 's') / 1000
+      },
+      failure_log_lines: input.number('failure_log_lines', 100, {
+        min: 0,
+        integer: true
+      }),
+      update_supabase_compose: input.boolean('update_supabase_compose', true)
+    }
+  }
+
+  if (input.problems.length > 0) {
+    throw new InputError(input.problems)
+  }
+  return inputs
+}
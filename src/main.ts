@@ -1,15 +1,45 @@
-import { getInput, setOutput } from '@actions/core'
-import Coolify from './coolify.js'
-import { randomUUID } from 'crypto'
+import { setFailed, setOutput, summary } from '@actions/core'
+import { parseChatOpsCommand } from './chatops.js'
+import { loadComposeOverlay } from './compose.js'
+import { loadDeployConfig } from './config.js'
+import Coolify, {
+  DeploymentPair,
+  DeploymentPlan,
+  SupersededError
+} from './coolify.js'
+import { writeEncryptedDotEnv } from './dotenv.js'
+import { formatDuration, PHASE_LABELS, PhaseTracker } from './phases.js'
+import { createNotifiers, notifyAll } from './notifiers.js'
+import {
+  CheckRunAnnotation,
+  GitHubClient,
+  GitHubDeploymentState,
+  IssueComment,
+  ReactionContent
+} from './github.js'
+import { ActionInputs, InputError, parseInputs } from './inputs.js'
+import {
+  toDeploymentName,
+  toLegacyDeploymentName,
+  withEphemeralSuffix
+} from './naming.js'
+import { registerSecret } from './secrets.js'
+import { GitInfo } from './types.js'
 import { readFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
 
 interface GitHubEvent {
   action?: string // 'opened', 'synchronize', 'closed', etc.
+  label?: {
+    name: string
+  } // for 'labeled' and 'unlabeled'
   pull_request?: {
     number: number
     html_url: string
     title: string
     merged: boolean
+    labels: { name: string }[]
     head: {
       ref: string
       sha: string
@@ -20,22 +50,113 @@ interface GitHubEvent {
   }
 }
 
-interface GitInfo {
-  branchOrPR: string
-  gitSha: string
-  repository: string
-  prNumber?: number
-  prUrl?: string
-  prTitle?: string
-  prAction?: string
-  prMerged?: boolean
+interface IssueCommentEvent {
+  action: string // 'created', 'edited', 'deleted'
+  issue: {
+    number: number
+    pull_request?: unknown
+  }
+  comment: {
+    id: number
+    body: string
+    user: {
+      login: string
+    }
+  }
+}
+
+/** Permissions allowed to run deployment commands from PR comments. */
+const CHATOPS_PERMISSIONS = ['admin', 'write']
+
+async function reactToComment(
+  github: GitHubClient,
+  commentId: number,
+  content: ReactionContent
+) {
+  try {
+    await github.createCommentReaction(commentId, content)
+  } catch (error) {
+    console.error(`Failed to react to comment ${commentId}: ${error}`)
+  }
 }
 
-function getGitInfo(): GitInfo {
+/**
+ * Resolves a deployment command commented on a PR to the PR's head, after
+ * checking that the commenter may deploy. Returns `undefined` when there is
+ * nothing to do: the comment is not a command, is not on a PR, or the
+ * commenter lacks write access.
+ */
+async function getChatOpsGitInfo(
+  event: IssueCommentEvent,
+  github?: GitHubClient
+): Promise<GitInfo | undefined> {
+  if (event.action !== 'created' || !event.issue.pull_request) {
+    console.log('Not a new PR comment, nothing to do')
+    return undefined
+  }
+  const { id: commentId, body, user } = event.comment
+  let parsed: ReturnType<typeof parseChatOpsCommand>
+  try {
+    parsed = parseChatOpsCommand(body)
+  } catch (error) {
+    if (github) {
+      await reactToComment(github, commentId, 'confused')
+    }
+    throw error
+  }
+  if (!parsed) {
+    console.log('Comment is not a deployment command, nothing to do')
+    return undefined
+  }
+  if (!github) {
+    throw new Error('github_token is required to run commands from PR comments')
+  }
+
+  const permission = await github.getCollaboratorPermission(user.login)
+  if (!CHATOPS_PERMISSIONS.includes(permission)) {
+    console.log(
+      `@${user.login} has ${permission} permission, /${parsed.name} requires write access`
+    )
+    await reactToComment(github, commentId, '-1')
+    return undefined
+  }
+
+  const pr = await github.getPullRequest(event.issue.number)
+  if (pr.state === 'closed' && parsed.name !== 'destroy') {
+    console.log(`PR #${pr.number} is closed, ignoring /${parsed.name}`)
+    await reactToComment(github, commentId, 'confused')
+    return undefined
+  }
+  if (!pr.head.repo) {
+    throw new Error(`The head repository of PR #${pr.number} was deleted`)
+  }
+  await reactToComment(github, commentId, 'eyes')
+  console.log(`Running /${parsed.name} for PR #${pr.number} by @${user.login}`)
+  return {
+    branchOrPR: pr.head.ref,
+    gitSha: pr.head.sha,
+    repository: pr.head.repo.full_name,
+    prNumber: pr.number,
+    prUrl: pr.html_url,
+    prTitle: pr.title,
+    prLabels: pr.labels.map((l) => l.name),
+    prMerged: pr.merged,
+    command: { ...parsed, commentId, actor: user.login }
+  }
+}
+
+async function getGitInfo(github?: GitHubClient): Promise<GitInfo | undefined> {
   const eventPath = process.env.GITHUB_EVENT_PATH
   const eventName = process.env.GITHUB_EVENT_NAME
   const defaultRepository = process.env.GITHUB_REPOSITORY
 
+  if (eventPath && eventName === 'issue_comment') {
+    const eventData: IssueCommentEvent = JSON.parse(
+      readFileSync(eventPath, 'utf8')
+    )
+    return getChatOpsGitInfo(eventData, github)
+  }
+
   // For pull_request_target, we need to get the PR head ref/sha/repo from the event payload
   if (
     eventPath &&
@@ -53,6 +174,8 @@ function getGitInfo(): GitInfo {
           prUrl: eventData.pull_request.html_url,
           prTitle: eventData.pull_request.title,
           prAction: eventData.action,
+          prActionLabel: eventData.label?.name,
+          prLabels: eventData.pull_request.labels.map((l) => l.name),
           prMerged: eventData.pull_request.merged
         }
       }
@@ -70,343 +193,1022 @@ function getGitInfo(): GitInfo {
   return { branchOrPR, gitSha, repository: defaultRepository }
 }
 
-interface DeploymentInfo {
-  appURL: string
-  supabase_url: string
-  supabase_anon_key: string
-  supabase_service_role_key: string
-  postgres_db: string
-  postgres_hostname: string
-  postgres_port: string
-  postgres_password: string
-  studio_user: string
-  studio_password: string
-  serviceUUID: string
-  appUUID: string
-  isNewDeployment: boolean
+const PR_COMMENT_MARKER = '<!-- pawtograder-deployment-comment -->'
+const PR_COMMENT_HISTORY = /<!-- pawtograder-deployment-history: (.*?) -->/
+const MAX_PR_COMMENT_HISTORY = 20
+
+interface DeploymentHistoryEntry {
+  sha: string
+  deployedAt: string
+  durationMs: number
+  result: 'success' | 'failure'
+}
+
+type PRCommentOutcome =
+  | {
+      result: 'success'
+      appURL: string
+      supabaseUrl: string
+      resetDb: boolean
+      appliedMigrations: string[]
+      frontendImage?: string
+    }
+  | {
+      result: 'failure'
+      error: string
+      failedPhase?: string
+    }
+
+/**
+ * The deploy history is kept as JSON in a hidden HTML comment inside the PR
+ * comment itself, so it survives across workflow runs without extra storage.
+ */
+function parseDeploymentHistory(body?: string): DeploymentHistoryEntry[] {
+  const match = body?.match(PR_COMMENT_HISTORY)
+  if (!match) {
+    return []
+  }
+  try {
+    return JSON.parse(match[1]) as DeploymentHistoryEntry[]
+  } catch {
+    return []
+  }
+}
+
+function renderDeploymentHistory(history: DeploymentHistoryEntry[]): string {
+  const data = `<!-- pawtograder-deployment-history: ${JSON.stringify(history)} -->`
+  if (history.length === 0) {
+    return data
+  }
+  const rows = history.map(
+    (entry) =>
+      `| \`${entry.sha.substring(0, 7)}\` | ${entry.deployedAt} | ${formatDuration(entry.durationMs)} | ${entry.result === 'success' ? '✅' : '❌'} |`
+  )
+  return `<details>
+<summary>Deployment history (${history.length})</summary>
+
+| Commit | Deployed at | Duration | Result |
+|--------|-------------|----------|--------|
+${rows.join('\n')}
+
+</details>
+${data}`
+}
+
+async function findPRComment(
+  github: GitHubClient,
+  prNumber: number
+): Promise<IssueComment | undefined> {
+  try {
+    const comments = await github.listIssueComments(prNumber)
+    return comments.find((c) => c.body.includes(PR_COMMENT_MARKER))
+  } catch (error) {
+    console.error(`Failed to list PR comments: ${error}`)
+    return undefined
+  }
+}
+
+/**
+ * Updates the deployment comment on the PR, creating it if it does not exist
+ * yet (unless `updateOnly` is set).
+ */
+async function upsertPRComment({
+  github,
+  prNumber,
+  existingComment,
+  body,
+  updateOnly
+}: {
+  github: GitHubClient
+  prNumber: number
+  existingComment?: { id: number }
+  body: string
+  updateOnly?: boolean
+}) {
+  if (existingComment) {
+    try {
+      await github.updateIssueComment(existingComment.id, body)
+      console.log('Updated existing PR comment')
+      return
+    } catch (error) {
+      console.error(`Failed to update PR comment: ${error}`)
+    }
+  }
+  if (updateOnly) {
+    return
+  }
+
+  // Create new comment
+  try {
+    await github.createIssueComment(prNumber, body)
+    console.log('Posted new PR comment')
+  } catch (error) {
+    console.error(`Failed to post PR comment: ${error}`)
+  }
 }
 
 async function postPRComment({
-  githubToken,
-  baseRepository,
+  github,
   prNumber,
-  appURL,
   gitSha,
-  supabaseUrl
+  durationMs,
+  outcome
 }: {
-  githubToken: string
-  baseRepository: string
+  github: GitHubClient
   prNumber: number
-  appURL: string
   gitSha: string
-  supabaseUrl: string
+  durationMs: number
+  outcome: PRCommentOutcome
 }) {
-  const commentMarker = '<!-- pawtograder-deployment-comment -->'
-  const commentBody = `${commentMarker}
-## 🚀 Deployment Ready!
+  const existingComment = await findPRComment(github, prNumber)
+  const deployedAt = new Date().toISOString()
+  const history = [
+    { sha: gitSha, deployedAt, durationMs, result: outcome.result },
+    ...parseDeploymentHistory(existingComment?.body)
+  ].slice(0, MAX_PR_COMMENT_HISTORY)
+
+  let details: string
+  if (outcome.result === 'success') {
+    const migrations =
+      outcome.appliedMigrations.length > 0
+        ? outcome.appliedMigrations.map((m) => `\`${m}\``).join('<br>')
+        : 'None'
+    details = `## 🚀 Deployment Ready!
 
 | Status | Details |
 |--------|---------|
-| **App URL** | [${appURL}](${appURL}) |
-| **Supabase URL** | ${supabaseUrl} |
+| **App URL** | [${outcome.appURL}](${outcome.appURL}) |
+| **Supabase URL** | ${outcome.supabaseUrl} |
+| **Supabase Studio** | [Open Studio](${outcome.supabaseUrl}) |
+| **Database** | ${outcome.resetDb ? '♻️ Reset' : 'Preserved'} |
+| **${outcome.resetDb ? 'Migrations' : 'New migrations'}** | ${migrations} |${outcome.frontendImage ? `\n| **Frontend image** | \`${outcome.frontendImage}\` |` : ''}
 | **Commit** | \`${gitSha.substring(0, 7)}\` |
-| **Deployed at** | ${new Date().toISOString()} |
-
----
-*This comment is automatically updated on each deployment.*`
+| **Deployed at** | ${deployedAt} |`
+  } else {
+    const runUrl = workflowRunUrl()
+    details = `## ❌ Deployment Failed
 
-  const apiUrl = `https://api.github.com/repos/${baseRepository}/issues/${prNumber}/comments`
+| Status | Details |
+|--------|---------|
+| **Failed phase** | ${outcome.failedPhase ?? 'Unknown'} |
+| **Commit** | \`${gitSha.substring(0, 7)}\` |
+| **Failed at** | ${deployedAt} |${runUrl ? `\n| **Logs** | [Workflow run](${runUrl}) |` : ''}
 
-  // First, try to find an existing comment to update
-  const listResponse = await fetch(apiUrl, {
-    headers: {
-      Authorization: `token ${githubToken}`,
-      Accept: 'application/vnd.github.v3+json'
-    }
-  })
+\`\`\`
+${outcome.error}
+\`\`\``
+  }
 
-  if (listResponse.ok) {
-    const comments = (await listResponse.json()) as Array<{
-      id: number
-      body: string
-    }>
-    const existingComment = comments.find((c) => c.body.includes(commentMarker))
-
-    if (existingComment) {
-      // Update existing comment
-      const updateResponse = await fetch(
-        `https://api.github.com/repos/${baseRepository}/issues/comments/${existingComment.id}`,
-        {
-          method: 'PATCH',
-          headers: {
-            Authorization: `token ${githubToken}`,
-            Accept: 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ body: commentBody })
-        }
-      )
+  await upsertPRComment({
+    github,
+    prNumber,
+    existingComment,
+    body: `${PR_COMMENT_MARKER}
+${details}
 
-      if (updateResponse.ok) {
-        console.log('Updated existing PR comment')
-        return
-      }
-    }
-  }
+${renderDeploymentHistory(history)}
 
-  // Create new comment
-  const createResponse = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      Authorization: `token ${githubToken}`,
-      Accept: 'application/vnd.github.v3+json',
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({ body: commentBody })
+---
+*This comment is automatically updated on each deployment.*`
   })
-
-  if (createResponse.ok) {
-    console.log('Posted new PR comment')
-  } else {
-    console.error(
-      `Failed to post PR comment: ${createResponse.status} ${createResponse.statusText}`
-    )
-  }
 }
 
 async function updatePRCommentForCleanup({
-  githubToken,
-  baseRepository,
+  github,
   prNumber,
-  merged
+  reason
 }: {
-  githubToken: string
-  baseRepository: string
+  github: GitHubClient
   prNumber: number
-  merged: boolean
+  reason: string
 }) {
-  const commentMarker = '<!-- pawtograder-deployment-comment -->'
-  const status = merged ? '✅ Merged' : '❌ Closed'
-  const commentBody = `${commentMarker}
+  const existingComment = await findPRComment(github, prNumber)
+  await upsertPRComment({
+    github,
+    prNumber,
+    existingComment,
+    updateOnly: true,
+    body: `${PR_COMMENT_MARKER}
 ## 🧹 Deployment Cleaned Up
 
 | Status | Details |
 |--------|---------|
-| **PR Status** | ${status} |
+| **Reason** | ${reason} |
 | **Cleaned up at** | ${new Date().toISOString()} |
 
+${renderDeploymentHistory(parseDeploymentHistory(existingComment?.body))}
+
 ---
 *The deployment resources have been automatically cleaned up.*`
-
-  const apiUrl = `https://api.github.com/repos/${baseRepository}/issues/${prNumber}/comments`
-
-  // Try to find existing comment to update
-  const listResponse = await fetch(apiUrl, {
-    headers: {
-      Authorization: `token ${githubToken}`,
-      Accept: 'application/vnd.github.v3+json'
-    }
   })
+}
 
-  if (listResponse.ok) {
-    const comments = (await listResponse.json()) as Array<{
-      id: number
-      body: string
-    }>
-    const existingComment = comments.find((c) => c.body.includes(commentMarker))
-
-    if (existingComment) {
-      const updateResponse = await fetch(
-        `https://api.github.com/repos/${baseRepository}/issues/comments/${existingComment.id}`,
-        {
-          method: 'PATCH',
-          headers: {
-            Authorization: `token ${githubToken}`,
-            Accept: 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ body: commentBody })
-        }
-      )
+function workflowRunUrl(): string | undefined {
+  const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID } = process.env
+  return GITHUB_SERVER_URL && GITHUB_REPOSITORY && GITHUB_RUN_ID
+    ? `${GITHUB_SERVER_URL}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}`
+    : undefined
+}
 
-      if (updateResponse.ok) {
-        console.log('Updated PR comment to show cleanup status')
-      }
-    }
+async function createGitHubDeployment({
+  github,
+  ref,
+  environment,
+  transient
+}: {
+  github: GitHubClient
+  ref: string
+  environment: string
+  transient: boolean
+}): Promise<number | undefined> {
+  try {
+    const deployment = await github.createDeployment({
+      ref,
+      environment,
+      transient_environment: transient,
+      production_environment: false,
+      description: `Coolify deployment ${environment}`
+    })
+    console.log(`Created GitHub deployment ${deployment.id} for ${environment}`)
+    return deployment.id
+  } catch (error) {
+    console.error(`Failed to create GitHub deployment: ${error}`)
+    return undefined
   }
 }
 
-async function sendDiscordWebhook({
-  webhookUrl,
-  gitInfo,
-  deployment,
-  repository
+async function setGitHubDeploymentStatus({
+  github,
+  deploymentId,
+  state,
+  environmentUrl,
+  description
 }: {
-  webhookUrl: string
-  gitInfo: GitInfo
-  deployment: DeploymentInfo
-  repository: string
+  github: GitHubClient
+  deploymentId: number
+  state: GitHubDeploymentState
+  environmentUrl?: string
+  description?: string
 }) {
-  const { branchOrPR, gitSha, prNumber, prUrl, prTitle } = gitInfo
-
-  // Build GitHub link - either PR or branch
-  const githubLink = prUrl
-    ? `PR #${prNumber}: ${prTitle}\n${prUrl}`
-    : `Branch: ${branchOrPR}\nhttps://github.com/${repository}/tree/${branchOrPR}`
-
-  const studioUrl = `https://${deployment.studio_user}:${deployment.studio_password}@${deployment.supabase_url.replace('https://', '')}`
-
-  // Plain message with code block for easy copy/paste
-  const message = `🚀 **New Deployment Ready!**
+  try {
+    await github.createDeploymentStatus(deploymentId, {
+      state,
+      environment_url: environmentUrl,
+      log_url: workflowRunUrl(),
+      description: description?.substring(0, 140),
+      auto_inactive: state === 'success'
+    })
+  } catch (error) {
+    console.error(
+      `Failed to set GitHub deployment ${deploymentId} to ${state}: ${error}`
+    )
+  }
+}
 
-📍 **Source:** ${githubLink}
+/**
+ * Marks every GitHub deployment of an environment inactive, so a cleaned up
+ * preview no longer shows as active on the PR and the Environments page.
+ */
+async function deactivateGitHubDeployments({
+  github,
+  environment
+}: {
+  github: GitHubClient
+  environment: string
+}) {
+  let deployments: { id: number }[]
+  try {
+    deployments = await github.listDeployments(environment)
+  } catch (error) {
+    console.error(
+      `Failed to list GitHub deployments for ${environment}: ${error}`
+    )
+    return
+  }
+  for (const deployment of deployments) {
+    await setGitHubDeploymentStatus({
+      github,
+      deploymentId: deployment.id,
+      state: 'inactive',
+      description: 'Deployment cleaned up'
+    })
+  }
+  console.log(
+    `Marked ${deployments.length} GitHub deployments of ${environment} inactive`
+  )
+}
 
-🌐 **App URL:** ${deployment.appURL}
+async function createCheckRun({
+  github,
+  headSha,
+  name
+}: {
+  github: GitHubClient
+  headSha: string
+  name: string
+}): Promise<number | undefined> {
+  try {
+    const checkRun = await github.createCheckRun({
+      name,
+      head_sha: headSha,
+      details_url: workflowRunUrl()
+    })
+    return checkRun.id
+  } catch (error) {
+    console.error(`Failed to create check run: ${error}`)
+    return undefined
+  }
+}
 
-🔧 **Supabase Studio:** ${studioUrl}
+/**
+ * Completes the check run with a table of phase timings. A failed phase is
+ * named in the summary, and annotated as a failure on the file it points at
+ * when there is one (e.g. the offending migration); GitHub only accepts
+ * annotations on files. A run superseded by a newer one is reported as
+ * cancelled.
+ */
+async function completeCheckRun({
+  github,
+  checkRunId,
+  phases,
+  error,
+  superseded
+}: {
+  github: GitHubClient
+  checkRunId: number
+  phases: PhaseTracker
+  error?: string
+  superseded?: boolean
+}) {
+  const failed = phases.results.find((r) => r.status === 'failure')
+  const rows = phases.results.map(
+    (r) =>
+      `| ${PHASE_LABELS[r.phase]} | ${r.status === 'success' ? '✅' : r.status === 'failure' ? '❌' : '⏳'} | ${r.durationMs === undefined ? '-' : formatDuration(r.durationMs)} |`
+  )
+  const summaryText = `| Phase | Result | Duration |
+|-------|--------|----------|
+${rows.join('\n')}${failed ? `\n\n**${PHASE_LABELS[failed.phase]} failed**` : ''}${error ? `\n\n\`\`\`\n${error}\n\`\`\`` : ''}`
+  const annotations = phases.results.flatMap((r): CheckRunAnnotation[] =>
+    r.status === 'failure' && r.file
+      ? [
+          {
+            path: r.file,
+            start_line: 1,
+            end_line: 1,
+            annotation_level: 'failure',
+            title: PHASE_LABELS[r.phase],
+            message: r.error ?? 'Failed'
+          }
+        ]
+      : []
+  )
 
-📋 **Environment Variables** (copy/paste ready):
-\`\`\`bash
-# Database
-POSTGRES_DB=${deployment.postgres_db}
-POSTGRES_HOSTNAME=${deployment.postgres_hostname}
-POSTGRES_PORT=${deployment.postgres_port}
-POSTGRES_PASSWORD=${deployment.postgres_password}
+  try {
+    await github.completeCheckRun(checkRunId, {
+      conclusion: superseded ? 'cancelled' : error ? 'failure' : 'success',
+      title: superseded
+        ? 'Superseded by a newer run'
+        : error
+          ? `Failed: ${failed ? PHASE_LABELS[failed.phase] : 'deployment'}`
+          : 'Deployment succeeded',
+      summary: summaryText,
+      annotations
+    })
+  } catch (err) {
+    console.error(`Failed to complete check run ${checkRunId}: ${err}`)
+  }
+}
 
-# Supabase
-SUPABASE_URL=${deployment.supabase_url}
-SUPABASE_ANON_KEY=${deployment.supabase_anon_key}
-SUPABASE_SERVICE_ROLE_KEY=${deployment.supabase_service_role_key}
-NEXT_PUBLIC_SUPABASE_URL=${deployment.supabase_url}
-NEXT_PUBLIC_SUPABASE_ANON_KEY=${deployment.supabase_anon_key}
+async function auditDeployments({
+  coolify,
+  github,
+  deleteOrphans,
+  dryRun
+}: {
+  coolify: Coolify
+  github?: GitHubClient
+  deleteOrphans: boolean
+  dryRun: boolean
+}) {
+  const pairs = await coolify.listDeploymentPairs()
 
-# Studio
-STUDIO_USER=${deployment.studio_user}
-STUDIO_PASSWORD=${deployment.studio_password}
-STUDIO_URL=${deployment.supabase_url}
+  // Ephemeral deployments carry a random suffix and are handled by the reap
+  // mode, so only long-lived deployments are matched against branches.
+  let branchExists: ((pair: DeploymentPair) => boolean) | undefined
+  if (github) {
+    const branches = await github.listBranchNames()
+    const branchNames = new Set(branches)
+    const deploymentNames = new Set([
+      ...branches.map((branchOrPR) => toDeploymentName({ branchOrPR })),
+      ...(await github.listOpenPullRequestNumbers()).map((n) => `pr-${n}`)
+    ])
+    branchExists = (pair) =>
+      pair.ephemeral ||
+      (pair.gitBranch
+        ? branchNames.has(pair.gitBranch)
+        : deploymentNames.has(pair.deploymentName))
+  } else {
+    console.log('No github_token provided, skipping branch existence check')
+  }
 
-# App
-NEXT_PUBLIC_PAWTOGRADER_URL=${deployment.appURL}
-NEXT_PUBLIC_PAWTOGRADER_WEB_URL=${deployment.appURL}
-\`\`\`
+  const report = pairs.map((pair) => ({
+    ...pair,
+    branchMissing: branchExists ? !branchExists(pair) : undefined
+  }))
+  for (const entry of report) {
+    const flags = [
+      entry.orphan ? 'ORPHAN' : undefined,
+      entry.branchMissing ? 'BRANCH MISSING' : undefined
+    ].filter(Boolean)
+    console.log(
+      `${entry.deploymentName}: service=${entry.serviceUUID || '-'} app=${entry.appUUID || '-'}${flags.length ? ` [${flags.join(', ')}]` : ''}`
+    )
+  }
 
-🔑 Commit: \`${gitSha.substring(0, 7)}\` | 🏷️ Service: \`${deployment.serviceUUID}\``
+  const deleted = deleteOrphans
+    ? (await coolify.deleteOrphans({ pairs, dryRun })).map(
+        (p) => p.deploymentName
+      )
+    : []
 
-  const response = await fetch(webhookUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      content: message
-    })
-  })
+  setOutput('audit_report', JSON.stringify(report))
+  setOutput('deleted_orphans', JSON.stringify(deleted))
+  await summary
+    .addHeading(dryRun ? 'Dry run: deployment audit' : 'Deployment audit')
+    .addTable([
+      [
+        { data: 'Deployment', header: true },
+        { data: 'Service', header: true },
+        { data: 'App', header: true },
+        { data: 'Orphan', header: true },
+        { data: 'Branch exists', header: true },
+        { data: dryRun ? 'Would delete' : 'Deleted', header: true }
+      ],
+      ...report.map((entry) => [
+        entry.deploymentName,
+        entry.serviceUUID || '-',
+        entry.appUUID || '-',
+        entry.orphan ? 'yes' : 'no',
+        entry.branchMissing === undefined
+          ? 'unknown'
+          : entry.branchMissing
+            ? 'no'
+            : 'yes',
+        deleted.includes(entry.deploymentName) ? 'yes' : 'no'
+      ])
+    ])
+    .write()
+}
 
-  if (!response.ok) {
-    const errorBody = await response.text()
-    console.error(
-      `Failed to send Discord webhook: ${response.status} ${response.statusText}`
+async function reportPlan(plan: DeploymentPlan) {
+  console.log(`Dry run: plan for ${plan.deploymentName}`)
+  if (plan.steps.length === 0) {
+    console.log('  nothing to do')
+  }
+  for (const step of plan.steps) {
+    console.log(
+      `  ${step.action.toUpperCase()} ${step.target}${step.details ? ` - ${step.details}` : ''}`
     )
-    console.error(`Discord error response: ${errorBody}`)
-  } else {
-    console.log('Discord webhook sent successfully')
   }
+  setOutput('plan', JSON.stringify(plan))
+
+  const overview = [
+    plan.isNewDeployment === undefined
+      ? undefined
+      : `New deployment: ${plan.isNewDeployment ? 'yes' : 'no'}`,
+    plan.resetDb === undefined
+      ? undefined
+      : `Database reset: ${plan.resetDb ? 'yes' : 'no'}`,
+    plan.buildPath ? `Build path: ${plan.buildPath}` : undefined
+  ].filter((line): line is string => !!line)
+  await summary
+    .addHeading(`Dry run: ${plan.deploymentName}`)
+    .addList(overview)
+    .addTable([
+      [
+        { data: 'Action', header: true },
+        { data: 'Target', header: true },
+        { data: 'Details', header: true }
+      ],
+      ...plan.steps.map((step) => [
+        step.action,
+        step.target,
+        step.details || ''
+      ])
+    ])
+    .write()
 }
 
 export async function run() {
-  const coolify_api_url = getInput('coolify_api_url')
-  const coolify_api_token = getInput('coolify_api_token')
-  const coolify_project_uuid = getInput('coolify_project_uuid')
-  const coolify_environment_uuid = getInput('coolify_environment_uuid')
-  const coolify_environment_name = getInput('coolify_environment_name')
-  const coolify_server_uuid = getInput('coolify_server_uuid')
-  const coolify_supabase_api_url = getInput('coolify_supabase_api_url')
-  const ephemeral = getInput('ephemeral')
-  const base_deployment_url = getInput('base_deployment_url')
-  const cleanup_service_uuid = getInput('cleanup_service_uuid')
-  const cleanup_app_uuid = getInput('cleanup_app_uuid')
-  const reset_supabase_db = getInput('reset_supabase_db')
-  const bugsink_dsn = getInput('bugsink_dsn')
-  const discord_webhook_url = getInput('discord_webhook_url')
-  const github_token = getInput('github_token')
-  const frontend_image_repo = getInput('frontend_image_repo')
-  const dockerfile_path = getInput('dockerfile_path')
-  const docker_registry_username = getInput('docker_registry_username')
-  const docker_registry_password = getInput('docker_registry_password')
+  let inputs: ActionInputs
+  try {
+    inputs = parseInputs()
+  } catch (error) {
+    if (error instanceof InputError) {
+      setFailed(error.message)
+      return
+    }
+    throw error
+  }
+  const {
+    mode,
+    rollback_to,
+    promote_from,
+    promote_to,
+    dry_run,
+    ephemeral,
+    ephemeral_ttl_ms,
+    audit_delete_orphans,
+    reset_supabase_db,
+    cleanup_service_uuid,
+    cleanup_app_uuid,
+    deploy_config,
+    supabase_compose_overlay,
+    deployment_naming,
+    env_encryption_public_key,
+    preview_label,
+    github_token,
+    github_deployments,
+    github_check_run,
+    frontend_image_repo,
+    dockerfile_path,
+    docker_registry_username,
+    docker_registry_password
+  } = inputs
+  const delete_options = inputs.coolify.delete_options
+  const github =
+    github_token && process.env.GITHUB_REPOSITORY
+      ? new GitHubClient({
+          token: github_token,
+          repository: process.env.GITHUB_REPOSITORY
+        })
+      : undefined
+
+  const deployConfig = await loadDeployConfig(
+    deploy_config || '.coolify-deploy.yml',
+    // The default location is optional; an explicitly configured one is not
+    { required: !!deploy_config }
+  )
 
   const coolify = new Coolify({
-    baseUrl: coolify_api_url,
-    token: coolify_api_token,
-    project_uuid: coolify_project_uuid,
-    environment_uuid: coolify_environment_uuid,
-    environment_name: coolify_environment_name,
-    server_uuid: coolify_server_uuid,
-    supabase_api_url: coolify_supabase_api_url,
-    base_deployment_url,
-    bugsink_dsn
+    ...inputs.coolify,
+    deploy_config: deployConfig,
+    // Only deploying and promoting push the compose to Coolify
+    supabase_compose_overlay:
+      supabase_compose_overlay && (mode === 'deploy' || mode === 'promote')
+        ? await loadComposeOverlay(supabase_compose_overlay)
+        : undefined
   })
 
+  if (mode === 'reap') {
+    const reaped = await coolify.reapExpiredDeployments({
+      ttlMs: ephemeral_ttl_ms,
+      dryRun: dry_run
+    })
+    setOutput('reaped_deployments', JSON.stringify(reaped))
+    await summary
+      .addHeading(
+        dry_run
+          ? 'Dry run: expired ephemeral deployments'
+          : 'Expired ephemeral deployments'
+      )
+      .addTable([
+        [
+          { data: 'Deployment', header: true },
+          { data: 'Launched at', header: true },
+          { data: 'Service', header: true },
+          { data: 'App', header: true }
+        ],
+        ...reaped.map((r) => [
+          r.deploymentName,
+          r.launchedAt,
+          r.deletedService || '-',
+          r.deletedApp || '-'
+        ])
+      ])
+      .write()
+    return
+  }
+
+  if (mode === 'audit') {
+    await auditDeployments({
+      coolify,
+      github,
+      deleteOrphans: audit_delete_orphans,
+      dryRun: dry_run
+    })
+    return
+  }
+
+  const gitInfo = await getGitInfo(github)
+  if (!gitInfo) {
+    return
+  }
   const {
     branchOrPR,
     gitSha,
     repository,
     prNumber,
-    prUrl,
-    prTitle,
     prAction,
-    prMerged
-  } = getGitInfo()
+    prMerged,
+    command
+  } = gitInfo
+  const nameSource = { branchOrPR, prNumber, naming: deployment_naming }
+  const stableDeploymentName = await coolify.resolveDeploymentName({
+    deploymentName: toDeploymentName(nameSource),
+    legacyDeploymentName: toLegacyDeploymentName(branchOrPR)
+  })
+  // Reacts to the PR comment that triggered the run with the outcome of its
+  // command; a no-op for runs not triggered by a command.
+  async function settleCommand<T>(work: () => Promise<T>): Promise<T> {
+    if (!command || !github) {
+      return work()
+    }
+    try {
+      const result = await work()
+      await reactToComment(github, command.commentId, 'rocket')
+      return result
+    } catch (error) {
+      await reactToComment(github, command.commentId, '-1')
+      throw error
+    }
+  }
+  const notifiers = createNotifiers({
+    discordWebhookUrl: inputs.discord_webhook_url,
+    slackWebhookUrl: inputs.slack_webhook_url,
+    teamsWebhookUrl: inputs.teams_webhook_url,
+    webhookUrl: inputs.notification_webhook_url,
+    secretPolicy: inputs.notification_secrets
+  })
+  const notifyEvents = inputs.notify_on
+
+  if (mode === 'rollback') {
+    const rollback = await coolify.rollbackDeployment({
+      deploymentName: stableDeploymentName,
+      repository,
+      gitBranch: branchOrPR,
+      target: rollback_to
+    })
+    setOutput('app_uuid', rollback.appUUID)
+    setOutput('rolled_back_from', rollback.from || '')
+    setOutput('rolled_back_to', rollback.to)
+    await summary
+      .addHeading(`Rolled back ${stableDeploymentName}`)
+      .addTable([
+        [
+          { data: 'App', header: true },
+          { data: 'Type', header: true },
+          { data: 'From', header: true },
+          { data: 'To', header: true }
+        ],
+        [rollback.appUUID, rollback.kind, rollback.from || '-', rollback.to]
+      ])
+      .addRaw('The database was left untouched.', true)
+      .write()
+    return
+  }
 
+  if (mode === 'promote') {
+    // parseInputs requires it, but the type cannot tell
+    if (!promote_from) {
+      throw new Error('promote_from is required in the promote mode')
+    }
+    const target = promote_to || stableDeploymentName
+    const promotion = await coolify.promoteDeployment({
+      source: promote_from,
+      targetDeploymentName: target,
+      checkedOutProjectDir: './',
+      repository,
+      // An explicit target may be a deployment of another branch, e.g. a
+      // staging deployment promoted to from main
+      gitBranch: promote_to ? undefined : branchOrPR,
+      gitCommitSha: gitSha,
+      frontendImageRepo: frontend_image_repo,
+      dockerfilePath: dockerfile_path,
+      dockerRegistryUsername: docker_registry_username,
+      dockerRegistryPassword: docker_registry_password
+    })
+    setOutput('frontend_image', promotion.image)
+    setOutput('service_uuid', promotion.serviceUUID)
+    setOutput('app_uuid', promotion.appUUID)
+    await summary
+      .addHeading(`Promoted ${promote_from} to ${target}`)
+      .addTable([
+        [
+          { data: 'Image', header: true },
+          { data: 'Service', header: true },
+          { data: 'App', header: true },
+          { data: 'Migrations applied', header: true }
+        ],
+        [
+          promotion.image,
+          promotion.serviceUUID,
+          promotion.appUUID,
+          promotion.appliedMigrations.join(', ') || 'none'
+        ]
+      ])
+      .write()
+    return
+  }
+
+  const destroy = command?.name === 'destroy'
   const deploymentName =
-    ephemeral.toLowerCase() === 'true'
-      ? `${branchOrPR.replace('/', '-')}-${randomUUID()}`
-      : branchOrPR.replace('/', '-')
+    ephemeral && !destroy
+      ? withEphemeralSuffix(toDeploymentName(nameSource, { ephemeral: true }))
+      : stableDeploymentName
+  const resetDb = reset_supabase_db || command?.name === 'reset-db'
 
-  // Auto-cleanup when PR is closed (only for non-ephemeral deployments)
-  if (prAction === 'closed' && ephemeral.toLowerCase() !== 'true') {
-    console.log(
-      `PR #${prNumber} was ${prMerged ? 'merged' : 'closed'}. Cleaning up deployment: ${deploymentName}`
-    )
-    const { deletedService, deletedApp } = await coolify.cleanupByName({
-      deploymentName
+  if (command?.name === 'extend-ttl') {
+    const expiresAt = new Date(Date.now() + command.ttlMs!)
+    const extended = await settleCommand(async () => {
+      const names = await coolify.extendEphemeralDeployments({
+        deploymentName: toDeploymentName(nameSource, { ephemeral: true }),
+        expiresAt,
+        dryRun: dry_run
+      })
+      if (names.length === 0) {
+        throw new Error(
+          `No ephemeral deployments of ${branchOrPR} found to extend`
+        )
+      }
+      return names
+    })
+    setOutput('extended_deployments', JSON.stringify(extended))
+    return
+  }
+
+  const previewLabelRemoved =
+    !!preview_label &&
+    prAction === 'unlabeled' &&
+    gitInfo.prActionLabel === preview_label
+
+  // Auto-cleanup when PR is closed or loses the preview label (only for
+  // non-ephemeral deployments), or on request with /destroy
+  if (
+    ((prAction === 'closed' || previewLabelRemoved) && !ephemeral) ||
+    destroy
+  ) {
+    let cleanupReason: string
+    if (destroy) {
+      cleanupReason = `🗑️ Destroyed by @${command.actor}`
+      console.log(`@${command.actor} requested /destroy`)
+    } else if (prAction === 'closed') {
+      cleanupReason = prMerged ? '✅ Merged' : '❌ Closed'
+      console.log(`PR #${prNumber} was ${prMerged ? 'merged' : 'closed'}`)
+    } else {
+      cleanupReason = `🏷️ Label \`${preview_label}\` removed`
+      console.log(`PR #${prNumber} lost the ${preview_label} label`)
+    }
+    // Ephemeral deployments carry a random suffix, so /destroy removes every
+    // one launched for the branch
+    const cleanups = await settleCommand(async () => {
+      const names =
+        destroy && ephemeral
+          ? await coolify.listEphemeralDeploymentNames({
+              deploymentName: toDeploymentName(nameSource, { ephemeral: true })
+            })
+          : [deploymentName]
+      if (names.length === 0) {
+        throw new Error(
+          `No ephemeral deployments of ${branchOrPR} found to destroy`
+        )
+      }
+      const results = []
+      for (const name of names) {
+        console.log(`Cleaning up deployment: ${name}`)
+        if (dry_run) {
+          await reportPlan(
+            await coolify.planCleanupByName({
+              deploymentName: name,
+              repository,
+              gitBranch: branchOrPR
+            })
+          )
+          continue
+        }
+        results.push({
+          deploymentName: name,
+          ...(await coolify.cleanupByName({
+            deploymentName: name,
+            repository,
+            gitBranch: branchOrPR
+          }))
+        })
+      }
+      return results
     })
+    if (dry_run) {
+      return
+    }
     setOutput('cleanup_performed', 'true')
-    setOutput('deleted_service_uuid', deletedService || '')
-    setOutput('deleted_app_uuid', deletedApp || '')
+    setOutput(
+      'deleted_service_uuid',
+      cleanups.map((c) => c.deletedService ?? '').join(',')
+    )
+    setOutput(
+      'deleted_app_uuid',
+      cleanups.map((c) => c.deletedApp ?? '').join(',')
+    )
+    setOutput('cleanup_options', JSON.stringify(delete_options))
+    for (const cleanup of cleanups) {
+      await notifyAll(notifiers, notifyEvents, {
+        type: 'cleanup',
+        gitInfo,
+        ...cleanup
+      })
+    }
 
     // Update PR comment to show deployment was cleaned up
-    const baseRepository = process.env.GITHUB_REPOSITORY
-    if (github_token && prNumber && baseRepository) {
+    if (github && github_deployments) {
+      await deactivateGitHubDeployments({
+        github,
+        environment: stableDeploymentName
+      })
+    }
+    if (github && prNumber) {
       await updatePRCommentForCleanup({
-        githubToken: github_token,
-        baseRepository,
+        github,
         prNumber,
-        merged: prMerged || false
+        reason: cleanupReason
       })
     }
     return
   }
 
+  // With a preview label configured, PRs are only deployed once labeled, and
+  // other label changes do not trigger a redeploy. Commands bypass the label.
+  if (
+    preview_label &&
+    prNumber &&
+    !command &&
+    !cleanup_service_uuid &&
+    !cleanup_app_uuid
+  ) {
+    if (
+      (prAction === 'labeled' || prAction === 'unlabeled') &&
+      gitInfo.prActionLabel !== preview_label
+    ) {
+      console.log(
+        `Label ${gitInfo.prActionLabel} changed on PR #${prNumber}, nothing to do`
+      )
+      return
+    }
+    if (!gitInfo.prLabels?.includes(preview_label)) {
+      console.log(
+        `PR #${prNumber} is not labeled ${preview_label}, skipping deployment`
+      )
+      return
+    }
+  }
+
+  if (dry_run) {
+    await reportPlan(
+      cleanup_service_uuid || cleanup_app_uuid
+        ? await coolify.planCleanup({ cleanup_service_uuid, cleanup_app_uuid })
+        : await coolify.planDeployment({
+            deploymentName,
+            repository,
+            gitBranch: branchOrPR,
+            gitCommitSha: gitSha,
+            reset_supabase_db: resetDb,
+            frontendImageRepo: frontend_image_repo,
+            dockerRegistryUsername: docker_registry_username,
+            dockerRegistryPassword: docker_registry_password
+          })
+    )
+    return
+  }
+
   if (cleanup_service_uuid || cleanup_app_uuid) {
-    await coolify.cleanup({
+    const { deletedService, deletedApp } = await coolify.cleanup({
       cleanup_service_uuid,
       cleanup_app_uuid
     })
-  } else {
-    const deployment = await coolify.createDeployment({
-      ephemeral: ephemeral === 'true',
-      checkedOutProjectDir: './',
+    setOutput('cleanup_performed', 'true')
+    setOutput('deleted_service_uuid', deletedService || '')
+    setOutput('deleted_app_uuid', deletedApp || '')
+    setOutput('cleanup_options', JSON.stringify(delete_options))
+    await notifyAll(notifiers, notifyEvents, {
+      type: 'cleanup',
+      gitInfo,
       deploymentName,
-      repository: `https://github.com/${repository}`,
-      gitBranch: branchOrPR,
-      gitCommitSha: gitSha,
-      reset_supabase_db: reset_supabase_db === 'true',
-      frontendImageRepo: frontend_image_repo || undefined,
-      dockerfilePath: dockerfile_path || undefined,
-      dockerRegistryUsername: docker_registry_username || undefined,
-      dockerRegistryPassword: docker_registry_password || undefined
+      deletedService,
+      deletedApp
     })
+  } else {
+    const githubDeploymentId =
+      github && github_deployments
+        ? await createGitHubDeployment({
+            github,
+            ref: gitSha,
+            // Ephemeral runs share the environment of the branch rather than
+            // leaving one environment behind per random suffix
+            environment: stableDeploymentName,
+            transient: ephemeral || !!prNumber
+          })
+        : undefined
+    async function setDeploymentStatus(
+      state: GitHubDeploymentState,
+      environmentUrl?: string,
+      description?: string
+    ) {
+      if (github && githubDeploymentId) {
+        await setGitHubDeploymentStatus({
+          github,
+          deploymentId: githubDeploymentId,
+          state,
+          environmentUrl,
+          description
+        })
+      }
+    }
+    await setDeploymentStatus('in_progress')
+
+    const phases = new PhaseTracker()
+    const startedAt = Date.now()
+    const checkRunId =
+      github && github_check_run
+        ? await createCheckRun({
+            github,
+            headSha: gitSha,
+            name: `Coolify deployment (${deploymentName})`
+          })
+        : undefined
+    async function finishCheckRun(error?: string, superseded?: boolean) {
+      if (github && checkRunId) {
+        await completeCheckRun({
+          github,
+          checkRunId,
+          phases,
+          error,
+          superseded
+        })
+      }
+    }
 
+    let deployment: Awaited<ReturnType<typeof coolify.createDeployment>>
+    try {
+      deployment = await settleCommand(() =>
+        coolify.createDeployment({
+          ephemeral,
+          checkedOutProjectDir: './',
+          deploymentName,
+          repository: `https://github.com/${repository}`,
+          gitBranch: branchOrPR,
+          gitCommitSha: gitSha,
+          reset_supabase_db: resetDb,
+          frontendImageRepo: frontend_image_repo,
+          dockerfilePath: dockerfile_path,
+          dockerRegistryUsername: docker_registry_username,
+          dockerRegistryPassword: docker_registry_password,
+          phases
+        })
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      if (error instanceof SupersededError) {
+        // Not a failure: the newer run carries on with the deployment
+        console.log(message)
+        await finishCheckRun(message, true)
+        await setDeploymentStatus('inactive', undefined, message)
+        return
+      }
+      await finishCheckRun(message)
+      await setDeploymentStatus('failure', undefined, message)
+      if (github && prNumber) {
+        const failed = phases.results.find((r) => r.status === 'failure')
+        await postPRComment({
+          github,
+          prNumber,
+          gitSha,
+          durationMs: Date.now() - startedAt,
+          outcome: {
+            result: 'failure',
+            error: message,
+            failedPhase: failed && PHASE_LABELS[failed.phase]
+          }
+        })
+      }
+      await notifyAll(notifiers, notifyEvents, {
+        type: 'deploy-failure',
+        gitInfo,
+        deploymentName,
+        error: message
+      })
+      throw error
+    }
+    await finishCheckRun()
+    await setDeploymentStatus('success', deployment.appURL)
+
+    for (const secret of [
+      deployment.supabase_service_role_key,
+      deployment.supabase_anon_key,
+      deployment.postgres_password,
+      deployment.studio_password,
+      deployment.edgeFunctionSecret
+    ]) {
+      registerSecret(secret)
+    }
     setOutput('supabase_url', deployment.supabase_url)
     setOutput('supabase_service_role_key', deployment.supabase_service_role_key)
     setOutput('supabase_anon_key', deployment.supabase_anon_key)
@@ -416,30 +1218,40 @@ export async function run() {
     setOutput('app_uuid', deployment.appUUID)
     setOutput('edge_function_secret', deployment.edgeFunctionSecret || '')
 
-    // Send Discord webhook notification only for NEW deployments
-    if (discord_webhook_url && deployment.isNewDeployment) {
-      await sendDiscordWebhook({
-        webhookUrl: discord_webhook_url,
-        gitInfo: { branchOrPR, gitSha, repository, prNumber, prUrl, prTitle },
+    if (env_encryption_public_key) {
+      const encryptedEnvPath = await writeEncryptedDotEnv({
         deployment,
-        repository
+        publicKeyPem: env_encryption_public_key,
+        outputDir: join(
+          process.env.RUNNER_TEMP || tmpdir(),
+          `coolify-env-${deploymentName}`
+        )
       })
-    } else if (discord_webhook_url && !deployment.isNewDeployment) {
-      console.log(
-        'Skipping Discord webhook - this is a redeploy of existing service'
-      )
+      console.log(`Encrypted .env written to ${encryptedEnvPath}`)
+      setOutput('encrypted_env_path', encryptedEnvPath)
     }
 
+    await notifyAll(notifiers, notifyEvents, {
+      type: 'deploy-success',
+      gitInfo,
+      deployment
+    })
+
     // Post PR comment if this is a PR and we have a GitHub token
-    const baseRepository = process.env.GITHUB_REPOSITORY
-    if (github_token && prNumber && baseRepository) {
+    if (github && prNumber) {
       await postPRComment({
-        githubToken: github_token,
-        baseRepository,
+        github,
         prNumber,
-        appURL: deployment.appURL,
         gitSha,
-        supabaseUrl: deployment.supabase_url
+        durationMs: Date.now() - startedAt,
+        outcome: {
+          result: 'success',
+          appURL: deployment.appURL,
+          supabaseUrl: deployment.supabase_url,
+          resetDb: deployment.resetDb,
+          appliedMigrations: deployment.appliedMigrations,
+          frontendImage: deployment.frontendImage
+        }
       })
     }
   }
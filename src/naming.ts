@@ -0,0 +1,98 @@
+import { createHash, randomBytes } from 'crypto'
+
+/** A deployment is served at `https://<name>.<base_deployment_url>`. */
+export const MAX_DNS_LABEL_LENGTH = 63
+
+const HASH_LENGTH = 6
+
+/** Hex characters of the random suffix of ephemeral deployments. */
+const EPHEMERAL_SUFFIX_LENGTH = 8
+
+/**
+ * `branch` names deployments after the branch; `pr-number` names the ones of
+ * pull requests `pr-<number>`, which stays short and stable across renames.
+ */
+export type DeploymentNaming = 'branch' | 'pr-number'
+
+export const DEPLOYMENT_NAMINGS: DeploymentNaming[] = ['branch', 'pr-number']
+
+/**
+ * Turns any string into a valid DNS label of at most `maxLength` characters.
+ * Names that have to be truncated keep a short hash of the full value, so two
+ * long branches with a common prefix still get different names.
+ */
+export function slugify(
+  value: string,
+  maxLength: number = MAX_DNS_LABEL_LENGTH
+): string {
+  const slug =
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'deployment'
+  if (slug.length <= maxLength) {
+    return slug
+  }
+  const hash = createHash('sha256')
+    .update(value)
+    .digest('hex')
+    .substring(0, HASH_LENGTH)
+  const head = slug.substring(0, maxLength - HASH_LENGTH - 1).replace(/-+$/, '')
+  return `${head}-${hash}`
+}
+
+/**
+ * Derives the Coolify deployment name for a branch or PR. Ephemeral names
+ * leave room for the random suffix added by {@link withEphemeralSuffix}; they
+ * are also what {@link ephemeralResourcePattern} matches ephemeral
+ * deployments by.
+ */
+export function toDeploymentName(
+  {
+    branchOrPR,
+    prNumber,
+    naming = 'branch'
+  }: {
+    branchOrPR: string
+    prNumber?: number
+    naming?: DeploymentNaming
+  },
+  { ephemeral = false }: { ephemeral?: boolean } = {}
+): string {
+  if (naming === 'pr-number' && prNumber) {
+    return `pr-${prNumber}`
+  }
+  return slugify(
+    branchOrPR,
+    ephemeral
+      ? MAX_DNS_LABEL_LENGTH - EPHEMERAL_SUFFIX_LENGTH - 1
+      : MAX_DNS_LABEL_LENGTH
+  )
+}
+
+/**
+ * The name deployments got before names were slugified. Deployments created
+ * back then keep it, so it is looked up when nothing exists under the new
+ * name.
+ */
+export function toLegacyDeploymentName(branchOrPR: string): string {
+  return branchOrPR.replace('/', '-')
+}
+
+export function withEphemeralSuffix(deploymentName: string): string {
+  return `${deploymentName}-${randomBytes(EPHEMERAL_SUFFIX_LENGTH / 2).toString('hex')}`
+}
+
+/**
+ * Matches the Coolify resources of the ephemeral deployments launched for
+ * `deploymentName`, i.e. `<deploymentName>-<suffix>-supabase` and
+ * `-frontend`, capturing the suffixed deployment name and the kind. Only the
+ * exact suffix matches, so `fix` does not match the deployments of
+ * `fix-login`.
+ */
+export function ephemeralResourcePattern(deploymentName: string): RegExp {
+  const escaped = deploymentName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(
+    `^(${escaped}-[0-9a-f]{${EPHEMERAL_SUFFIX_LENGTH}})-(supabase|frontend)$`
+  )
+}
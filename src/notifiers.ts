@@ -0,0 +1,416 @@
+import { dotEnvKeys, renderDotEnv, SecretPolicy } from './dotenv.js'
+import { DeploymentInfo, GitInfo } from './types.js'
+
+export type NotificationEvent =
+  | {
+      type: 'deploy-success'
+      gitInfo: GitInfo
+      deployment: DeploymentInfo
+    }
+  | {
+      type: 'deploy-failure'
+      gitInfo: GitInfo
+      deploymentName: string
+      error: string
+    }
+  | {
+      type: 'cleanup'
+      gitInfo: GitInfo
+      deploymentName: string
+      deletedService?: string
+      deletedApp?: string
+    }
+
+export type NotificationEventType = NotificationEvent['type']
+
+export interface Notifier {
+  readonly name: string
+  notify(event: NotificationEvent): Promise<void>
+}
+
+function sourceLink(gitInfo: GitInfo): string {
+  const { branchOrPR, repository, prNumber, prUrl, prTitle } = gitInfo
+  return prUrl
+    ? `PR #${prNumber}: ${prTitle}\n${prUrl}`
+    : `Branch: ${branchOrPR}\nhttps://github.com/${repository}/tree/${branchOrPR}`
+}
+
+function sourceUrl(gitInfo: GitInfo): string {
+  return (
+    gitInfo.prUrl ??
+    `https://github.com/${gitInfo.repository}/tree/${gitInfo.branchOrPR}`
+  )
+}
+
+function sourceLabel(gitInfo: GitInfo): string {
+  return gitInfo.prNumber
+    ? `PR #${gitInfo.prNumber}: ${gitInfo.prTitle}`
+    : `Branch ${gitInfo.branchOrPR}`
+}
+
+function title(event: NotificationEvent): string {
+  switch (event.type) {
+    case 'deploy-success':
+      return event.deployment.isNewDeployment
+        ? '🚀 New Deployment Ready!'
+        : '🔄 Deployment Updated'
+    case 'deploy-failure':
+      return `❌ Deployment Failed: ${event.deploymentName}`
+    case 'cleanup':
+      return `🧹 Deployment Cleaned Up: ${event.deploymentName}`
+  }
+}
+
+/**
+ * The `.env` section of a new-deployment message under the given policy:
+ * values for `full`, variable names only for `redacted`, nothing for `none`.
+ */
+function credentials(
+  deployment: DeploymentInfo,
+  policy: SecretPolicy
+): { heading: string; body: string } | undefined {
+  if (policy === 'none') {
+    return undefined
+  }
+  if (policy === 'full') {
+    return {
+      heading: 'Environment Variables (copy/paste ready)',
+      body: renderDotEnv(deployment)
+    }
+  }
+  return {
+    heading: 'Environment Variables (values in Coolify)',
+    body: dotEnvKeys(deployment).join('\n')
+  }
+}
+
+function studioUrl(deployment: DeploymentInfo, policy: SecretPolicy): string {
+  return policy === 'full'
+    ? `https://${deployment.studio_user}:${deployment.studio_password}@${deployment.supabase_url.replace('https://', '')}`
+    : deployment.supabase_url
+}
+
+async function postJSON(name: string, url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.text()
+    console.error(
+      `Failed to send ${name} notification: ${response.status} ${response.statusText}`
+    )
+    console.error(`${name} error response: ${errorBody}`)
+  } else {
+    console.log(`${name} notification sent successfully`)
+  }
+}
+
+export class DiscordNotifier implements Notifier {
+  readonly name = 'Discord'
+
+  constructor(
+    private webhookUrl: string,
+    private secretPolicy: SecretPolicy
+  ) {}
+
+  async notify(event: NotificationEvent) {
+    await postJSON(this.name, this.webhookUrl, {
+      content: this.message(event)
+    })
+  }
+
+  private message(event: NotificationEvent): string {
+    const { gitSha } = event.gitInfo
+    const source = `📍 **Source:** ${sourceLink(event.gitInfo)}`
+    if (event.type === 'deploy-failure') {
+      return `${title(event)}
+
+${source}
+
+\`\`\`
+${event.error}
+\`\`\`
+
+🔑 Commit: \`${gitSha.substring(0, 7)}\``
+    }
+    if (event.type === 'cleanup') {
+      return `${title(event)}
+
+${source}
+
+🏷️ Service: \`${event.deletedService || '-'}\` | App: \`${event.deletedApp || '-'}\``
+    }
+
+    const { deployment } = event
+    if (!deployment.isNewDeployment) {
+      return `${title(event)}
+
+${source}
+
+🌐 **App URL:** ${deployment.appURL}
+
+🔑 Commit: \`${gitSha.substring(0, 7)}\` | 🏷️ Service: \`${deployment.serviceUUID}\``
+    }
+
+    const env = credentials(deployment, this.secretPolicy)
+    const envSection = env
+      ? `\n📋 **${env.heading}**:\n\`\`\`bash\n${env.body}\n\`\`\`\n`
+      : ''
+
+    // Plain message with code block for easy copy/paste
+    return `${title(event)}
+
+${source}
+
+🌐 **App URL:** ${deployment.appURL}
+
+🔧 **Supabase Studio:** ${studioUrl(deployment, this.secretPolicy)}
+${envSection}
+🔑 Commit: \`${gitSha.substring(0, 7)}\` | 🏷️ Service: \`${deployment.serviceUUID}\``
+  }
+}
+
+/**
+ * Posts Block Kit messages to a Slack incoming webhook.
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = 'Slack'
+
+  constructor(
+    private webhookUrl: string,
+    private secretPolicy: SecretPolicy
+  ) {}
+
+  async notify(event: NotificationEvent) {
+    const fields = [
+      `*Source*\n<${sourceUrl(event.gitInfo)}|${sourceLabel(event.gitInfo)}>`,
+      `*Commit*\n\`${event.gitInfo.gitSha.substring(0, 7)}\``
+    ]
+    const blocks: unknown[] = [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: title(event), emoji: true }
+      }
+    ]
+    if (event.type === 'deploy-success') {
+      fields.push(
+        `*App URL*\n<${event.deployment.appURL}>`,
+        `*Supabase URL*\n<${event.deployment.supabase_url}>`
+      )
+    } else if (event.type === 'cleanup') {
+      fields.push(
+        `*Service*\n\`${event.deletedService || '-'}\``,
+        `*App*\n\`${event.deletedApp || '-'}\``
+      )
+    }
+    blocks.push({
+      type: 'section',
+      fields: fields.map((text) => ({ type: 'mrkdwn', text }))
+    })
+    if (event.type === 'deploy-success' && event.deployment.isNewDeployment) {
+      const env = credentials(event.deployment, this.secretPolicy)
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*<${studioUrl(event.deployment, this.secretPolicy)}|Supabase Studio>*${
+            env ? `\n*${env.heading}*\n\`\`\`${env.body}\`\`\`` : ''
+          }`
+        }
+      })
+    }
+    if (event.type === 'deploy-failure') {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: `\`\`\`${event.error}\`\`\`` }
+      })
+    }
+    await postJSON(this.name, this.webhookUrl, {
+      text: title(event),
+      blocks
+    })
+  }
+}
+
+/**
+ * Posts Adaptive Cards to a Microsoft Teams incoming webhook / workflow.
+ */
+export class TeamsNotifier implements Notifier {
+  readonly name = 'Teams'
+
+  constructor(
+    private webhookUrl: string,
+    private secretPolicy: SecretPolicy
+  ) {}
+
+  async notify(event: NotificationEvent) {
+    const facts = [
+      { title: 'Source', value: sourceLabel(event.gitInfo) },
+      { title: 'Commit', value: event.gitInfo.gitSha.substring(0, 7) }
+    ]
+    const actions = [
+      {
+        type: 'Action.OpenUrl',
+        title: 'View source',
+        url: sourceUrl(event.gitInfo)
+      }
+    ]
+    const body: unknown[] = [
+      {
+        type: 'TextBlock',
+        text: title(event),
+        weight: 'Bolder',
+        size: 'Medium',
+        wrap: true
+      }
+    ]
+    if (event.type === 'deploy-success') {
+      facts.push(
+        { title: 'App URL', value: event.deployment.appURL },
+        { title: 'Supabase URL', value: event.deployment.supabase_url }
+      )
+      actions.unshift({
+        type: 'Action.OpenUrl',
+        title: 'Open app',
+        url: event.deployment.appURL
+      })
+    } else if (event.type === 'cleanup') {
+      facts.push(
+        { title: 'Service', value: event.deletedService || '-' },
+        { title: 'App', value: event.deletedApp || '-' }
+      )
+    }
+    body.push({ type: 'FactSet', facts })
+    if (event.type === 'deploy-success' && event.deployment.isNewDeployment) {
+      actions.push({
+        type: 'Action.OpenUrl',
+        title: 'Supabase Studio',
+        url: studioUrl(event.deployment, this.secretPolicy)
+      })
+      const env = credentials(event.deployment, this.secretPolicy)
+      if (env) {
+        body.push(
+          { type: 'TextBlock', text: env.heading, weight: 'Bolder' },
+          {
+            type: 'TextBlock',
+            text: env.body,
+            fontType: 'Monospace',
+            wrap: true
+          }
+        )
+      }
+    }
+    if (event.type === 'deploy-failure') {
+      body.push({
+        type: 'TextBlock',
+        text: event.error,
+        fontType: 'Monospace',
+        color: 'Attention',
+        wrap: true
+      })
+    }
+    await postJSON(this.name, this.webhookUrl, {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body,
+            actions
+          }
+        }
+      ]
+    })
+  }
+}
+
+/**
+ * Posts the raw event as JSON, for consumers that route notifications
+ * themselves. Credentials are never included.
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = 'Webhook'
+
+  constructor(private webhookUrl: string) {}
+
+  async notify(event: NotificationEvent) {
+    const { type, gitInfo } = event
+    const payload: Record<string, unknown> = { event: type, ...gitInfo }
+    if (event.type === 'deploy-success') {
+      const { deployment } = event
+      payload.deployment = {
+        appURL: deployment.appURL,
+        supabase_url: deployment.supabase_url,
+        serviceUUID: deployment.serviceUUID,
+        appUUID: deployment.appUUID,
+        isNewDeployment: deployment.isNewDeployment
+      }
+    } else if (event.type === 'deploy-failure') {
+      payload.deploymentName = event.deploymentName
+      payload.error = event.error
+    } else {
+      payload.deploymentName = event.deploymentName
+      payload.deletedService = event.deletedService
+      payload.deletedApp = event.deletedApp
+    }
+    await postJSON(this.name, this.webhookUrl, payload)
+  }
+}
+
+export function createNotifiers({
+  discordWebhookUrl,
+  slackWebhookUrl,
+  teamsWebhookUrl,
+  webhookUrl,
+  secretPolicy
+}: {
+  discordWebhookUrl?: string
+  slackWebhookUrl?: string
+  teamsWebhookUrl?: string
+  webhookUrl?: string
+  secretPolicy: SecretPolicy
+}): Notifier[] {
+  const notifiers: Notifier[] = []
+  if (discordWebhookUrl) {
+    notifiers.push(new DiscordNotifier(discordWebhookUrl, secretPolicy))
+  }
+  if (slackWebhookUrl) {
+    notifiers.push(new SlackNotifier(slackWebhookUrl, secretPolicy))
+  }
+  if (teamsWebhookUrl) {
+    notifiers.push(new TeamsNotifier(teamsWebhookUrl, secretPolicy))
+  }
+  if (webhookUrl) {
+    notifiers.push(new WebhookNotifier(webhookUrl))
+  }
+  return notifiers
+}
+
+/**
+ * Sends the event to every notifier subscribed to its type. A failing notifier
+ * is logged and never fails the deployment.
+ */
+export async function notifyAll(
+  notifiers: Notifier[],
+  events: NotificationEventType[],
+  event: NotificationEvent
+) {
+  if (!events.includes(event.type)) {
+    return
+  }
+  for (const notifier of notifiers) {
+    try {
+      await notifier.notify(event)
+    } catch (error) {
+      console.error(`Failed to send ${notifier.name} notification: ${error}`)
+    }
+  }
+}
@@ -0,0 +1,65 @@
+export type DeploymentPhase =
+  | 'service-ready'
+  | 'functions-deployed'
+  | 'migrations-pushed'
+  | 'vault-secrets-updated'
+  | 'image-built'
+  | 'frontend-ready'
+
+export const PHASE_LABELS: Record<DeploymentPhase, string> = {
+  'service-ready': 'Supabase service ready',
+  'functions-deployed': 'Edge functions deployed',
+  'migrations-pushed': 'Migrations pushed',
+  'vault-secrets-updated': 'Vault secrets updated',
+  'image-built': 'Frontend image built',
+  'frontend-ready': 'Frontend ready'
+}
+
+export interface PhaseResult {
+  phase: DeploymentPhase
+  startedAt: Date
+  durationMs?: number
+  status: 'running' | 'success' | 'failure'
+  error?: string
+  /** Repository file the failure points at, e.g. the offending migration. */
+  file?: string
+}
+
+/**
+ * Records the outcome and duration of each phase of a deployment, so a failure
+ * can be attributed to the phase (and file) that caused it.
+ */
+export class PhaseTracker {
+  readonly results: PhaseResult[] = []
+
+  async run<T>(phase: DeploymentPhase, fn: () => Promise<T>): Promise<T> {
+    const result: PhaseResult = {
+      phase,
+      startedAt: new Date(),
+      status: 'running'
+    }
+    this.results.push(result)
+    try {
+      const value = await fn()
+      result.status = 'success'
+      return value
+    } catch (error) {
+      result.status = 'failure'
+      result.error = error instanceof Error ? error.message : String(error)
+      const { file } = error as { file?: unknown }
+      if (typeof file === 'string') {
+        result.file = file
+      }
+      throw error
+    } finally {
+      result.durationMs = Date.now() - result.startedAt.getTime()
+    }
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  return seconds >= 60
+    ? `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+    : `${seconds}s`
+}
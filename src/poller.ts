@@ -0,0 +1,121 @@
+export interface PollOptions {
+  /** Delay before the first re-check, in milliseconds. */
+  intervalMs: number
+  /** Multiplier applied to the delay after every tick (1 = fixed interval). */
+  backoff?: number
+  /** Upper bound for the delay between ticks, in milliseconds. */
+  maxIntervalMs?: number
+  /** Give up after this many milliseconds. */
+  timeoutMs: number
+  /** Aborting the signal rejects the poll with the signal's reason. */
+  signal?: AbortSignal
+  /** Used in the timeout error, e.g. "service abc to be ready". */
+  description: string
+}
+
+export class PollTimeoutError extends Error {
+  constructor(description: string) {
+    super(`Timeout waiting for ${description}`)
+    this.name = 'PollTimeoutError'
+  }
+}
+
+/**
+ * Calls `check` until it returns a value other than `undefined`. Ticks never
+ * overlap: the next check is scheduled only after the previous one settles. An
+ * error thrown by `check` rejects the poll immediately, so terminal states
+ * (e.g. a failed deployment) surface as a rejection of the returned promise.
+ * A check that hangs past the timeout or an abort is abandoned, so a stuck API
+ * call cannot hold the poll open.
+ */
+export async function poll<T>(
+  check: () => Promise<T | undefined>,
+  {
+    intervalMs,
+    backoff = 1,
+    maxIntervalMs = 60_000,
+    timeoutMs,
+    signal,
+    description
+  }: PollOptions
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs
+  let delay = intervalMs
+  for (;;) {
+    signal?.throwIfAborted()
+    const result = await race(
+      check(),
+      deadline - Date.now(),
+      signal,
+      description
+    )
+    if (result !== undefined) {
+      return result
+    }
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      throw new PollTimeoutError(description)
+    }
+    await sleep(Math.min(delay, remaining), signal)
+    delay = Math.min(delay * backoff, maxIntervalMs)
+  }
+}
+
+/**
+ * Settles with `promise`, unless `ms` pass first (PollTimeoutError) or the
+ * signal is aborted (its reason).
+ */
+function race<T>(
+  promise: Promise<T>,
+  ms: number,
+  signal: AbortSignal | undefined,
+  description: string
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      settle()
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(
+      () => {
+        settle()
+        reject(new PollTimeoutError(description))
+      },
+      Math.max(ms, 0)
+    )
+    signal?.addEventListener('abort', onAbort, { once: true })
+    promise.then(
+      (value) => {
+        settle()
+        resolve(value)
+      },
+      (error) => {
+        settle()
+        reject(error)
+      }
+    )
+  })
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Aborted while the check was running
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
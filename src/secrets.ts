@@ -0,0 +1,23 @@
+import { setSecret } from '@actions/core'
+
+const registered = new Set<string>()
+
+/**
+ * Masks a value in all subsequent log output and step outputs. Multi-line
+ * values are also registered line by line, since the runner masks each line of
+ * a logged value independently.
+ */
+export function registerSecret(value: string | undefined) {
+  if (!value || registered.has(value)) {
+    return
+  }
+  registered.add(value)
+  setSecret(value)
+  if (value.includes('\n')) {
+    for (const line of value.split('\n')) {
+      if (line.trim()) {
+        registerSecret(line.trim())
+      }
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { ChatOpsCommand } from './chatops.js'
+
+export interface GitInfo {
+  branchOrPR: string
+  gitSha: string
+  repository: string
+  prNumber?: number
+  prUrl?: string
+  prTitle?: string
+  prAction?: string
+  /** The label added or removed by a `labeled` / `unlabeled` action. */
+  prActionLabel?: string
+  prLabels?: string[]
+  prMerged?: boolean
+  /** Set when the run was triggered by a deployment command on a PR. */
+  command?: ChatOpsCommand
+}
+
+export interface DeploymentInfo {
+  appURL: string
+  supabase_url: string
+  supabase_anon_key: string
+  supabase_service_role_key: string
+  postgres_db: string
+  postgres_hostname: string
+  postgres_port: string
+  postgres_password: string
+  studio_user: string
+  studio_password: string
+  serviceUUID: string
+  appUUID: string
+  isNewDeployment: boolean
+}